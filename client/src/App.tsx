@@ -1,19 +1,68 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { PhaserGame } from "./game/PhaserGame";
-import { socket } from "./socket";
-import { EVENTS } from "@mping/shared";
+import { socket, signedInName } from "./socket";
+import {
+  EVENTS, Player, PlayerProfile, PlayerUpdatedPayload, JoinRejectedPayload, RosterEntry, RemovedPayload, AuthErrorData,
+  CallDeclinedPayload, CallEndedPayload, NewRoomSettings,
+  NAME_MAX_LENGTH, ROOM_PASSWORD_MAX_LENGTH,
+} from "@mping/shared";
 import { voiceChat, CallState } from "./voice/VoiceChat";
 import { CallOverlay } from "./components/CallOverlay";
+import { ProfileEditor } from "./components/ProfileEditor";
+import { ChatPanel } from "./components/ChatPanel";
+import { RoomBrowser } from "./components/RoomBrowser";
+import { CreateRoomForm } from "./components/CreateRoomForm";
+import { InviteLink } from "./components/InviteLink";
+import { BlockList } from "./components/BlockList";
+import { AnnouncementBanner } from "./components/AnnouncementBanner";
+import { JoinOptions } from "./game/WorldScene";
+import { fetchRoom } from "./api";
+import { InviteLinkParams, readInviteLink } from "./invite";
 import "./App.css";
 
 type AppState = "lobby" | "connecting" | "in-game";
+type LobbyMode = "join" | "create";
+
+// Socket.IO's reason when WE called socket.disconnect() (Leave button).
+// Any other reason is a dropped connection that the client will retry.
+const CLIENT_DISCONNECT = "io client disconnect";
+// …and when the SERVER disconnected us on purpose (kicked, banned, room
+// closed — see REMOVED). Socket.IO doesn't retry this one either.
+const SERVER_DISCONNECT = "io server disconnect";
+
+// Remember the last name used so returning players don't retype it.
+// A signed-in player's first visit starts from their sign-in name.
+const NAME_KEY = "mping:name";
+
+// Room IDs are slugs: "Book Club" → "book-club"
+const toRoomId = (input: string) => input.trim().toLowerCase().replace(/\s+/g, "-");
+
+// Opened from an invite link? Read it once, then tidy the address bar
+// so a reload or a screenshot doesn't carry the token around.
+const initialInvite = readInviteLink(window.location.href);
+if (initialInvite) window.history.replaceState(null, "", window.location.pathname);
 
 export function App() {
   const [appState, setAppState] = useState<AppState>("lobby");
-  const [roomInput, setRoomInput] = useState("town-square");
+  const [roomInput, setRoomInput] = useState(initialInvite?.roomId ?? "town-square");
+  const [nameInput, setNameInput] = useState(() => localStorage.getItem(NAME_KEY) ?? signedInName() ?? "");
+  const [lobbyError, setLobbyError] = useState<string | null>(null);
+  const [lobbyMode, setLobbyMode] = useState<LobbyMode>("join");
   const [currentRoom, setCurrentRoom] = useState("");
-  const [playerCount, setPlayerCount] = useState(0);
+  // Private rooms: the invite we were given, and a password once the
+  // server has asked for one
+  const [invite, setInvite] = useState<InviteLinkParams | null>(initialInvite);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [passwordInput, setPasswordInput] = useState("");
+  // Settings/credentials for the room we're entering, sent with JOIN_ROOM
+  const [joinOptions, setJoinOptions] = useState<JoinOptions>({});
+
+  // Everyone else in the room, by player ID — for names in the HUD and
+  // call screens. `self` is us, as the server last confirmed it.
+  const [players, setPlayers] = useState<Map<string, PlayerProfile>>(new Map());
+  const [self, setSelf] = useState<Player | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
 
   // ── VOICE CALL STATE ─────────────────────────────────────────
   const [callState, setCallState] = useState<CallState>("idle");
@@ -22,6 +71,9 @@ export function App() {
   const [isMuted, setIsMuted] = useState(false);
   const [callError, setCallError] = useState<string | null>(null);
 
+  // Our own player ID, readable from socket handlers without re-binding
+  const selfIdRef = useRef<string | null>(null);
+
   // ── SOCKET LIFECYCLE ─────────────────────────────────────────
   useEffect(() => {
     voiceChat.init({
@@ -36,26 +88,74 @@ export function App() {
     });
 
     // Named refs so cleanup removes ONLY these handlers, not WorldScene's
-    const onConnect    = () => setIsConnected(true);
-    const onDisconnect = () => { setIsConnected(false); setAppState("lobby"); voiceChat.endCall(); };
-    const onRoomState  = (players: {id:string}[]) => setPlayerCount(players.length + 1);
-    const onJoined     = () => setPlayerCount((c) => c + 1);
-    const onLeft       = () => setPlayerCount((c) => Math.max(1, c - 1));
+    const onConnect    = () => { setIsConnected(true); setIsReconnecting(false); };
+    const onDisconnect = (reason: string) => {
+      setIsConnected(false);
+      if (reason === CLIENT_DISCONNECT || reason === SERVER_DISCONNECT) {
+        setAppState("lobby");
+        voiceChat.endCall();
+        if (reason === SERVER_DISCONNECT) resetRoom();
+        return;
+      }
+      // Dropped connection — stay in the world. Socket.IO reconnects on
+      // its own, the server re-attaches our player from the session token
+      // and WorldScene re-sends JOIN_ROOM for the same room. Any call is
+      // over though: the server has already ended it for our peer.
+      voiceChat.dropCall();
+      setIsReconnecting(true);
+    };
+    // The roster is the whole room; ROOM_STATE only covers who's in view
+    const onRoster     = (list: RosterEntry[]) =>
+      setPlayers(new Map(list.map((p) => [p.id, { name: p.name, status: p.status }])));
+    const onJoined     = (p: Player) =>
+      setPlayers((prev) => new Map(prev).set(p.id, { name: p.name, status: p.status }));
+    const onLeft       = (id: string) => setPlayers((prev) => {
+      const next = new Map(prev);
+      next.delete(id);
+      return next;
+    });
+    const onUpdated    = (u: PlayerUpdatedPayload) => {
+      setSelf((prev) => (prev?.id === u.id ? { ...prev, name: u.name, status: u.status } : prev));
+      setPlayers((prev) => (prev.has(u.id)
+        ? new Map(prev).set(u.id, { name: u.name, status: u.status })
+        : prev));
+      if (u.id === selfIdRef.current) localStorage.setItem(NAME_KEY, u.name);
+    };
+    const onSelf       = (p: Player) => { selfIdRef.current = p.id; setSelf(p); };
+    const onRemoved    = (r: RemovedPayload) => setLobbyError(r.message);
+    // The server refused the connection itself (sign-in required, token
+    // expired — see AuthErrorData). Socket.IO won't retry; anything
+    // without `data` is network trouble, which it will.
+    const onConnectError = (err: Error & { data?: AuthErrorData }) => {
+      if (!err.data) return;
+      setLobbyError(err.data.message);
+      setAppState("lobby");
+      voiceChat.dropCall();
+      resetRoom();
+    };
+    const onRejected   = (r: JoinRejectedPayload) => {
+      // Not in the room — back to the lobby with the reason
+      setLobbyError(r.message);
+      if (r.reason === "credentials_required" || r.reason === "invalid_password") setNeedsPassword(true);
+      if (r.reason === "invalid_invite") setInvite(null);
+      socket.disconnect();
+    };
 
     socket.on("connect",            onConnect);
     socket.on("disconnect",         onDisconnect);
-    socket.on(EVENTS.ROOM_STATE,    onRoomState);
+    socket.on(EVENTS.ROOM_ROSTER,   onRoster);
     socket.on(EVENTS.PLAYER_JOINED, onJoined);
     socket.on(EVENTS.PLAYER_LEFT,   onLeft);
+    socket.on(EVENTS.PLAYER_UPDATED, onUpdated);
+    socket.on(EVENTS.SELF_PLAYER,   onSelf);
+    socket.on(EVENTS.JOIN_REJECTED, onRejected);
+    socket.on(EVENTS.REMOVED,       onRemoved);
+    socket.on("connect_error",      onConnectError);
 
     // ── Incoming call request ────────────────────────────────
+    // No need to check whether we're free: the server tracks calls and
+    // answers "busy" for us if we're already in one.
     socket.on(EVENTS.CALL_REQUEST, (payload: { from: string }) => {
-      // Use voiceChat.getState() not React's callState — the effect
-      // closure captures the initial value, not the current one.
-      if (voiceChat.getState() !== "idle") {
-        socket.emit(EVENTS.CALL_DECLINE, { to: payload.from });
-        return;
-      }
       voiceChat.markReceiving(payload.from);
       setCallPeerId(payload.from);
       // The WEBRTC_OFFER will arrive shortly after CALL_REQUEST.
@@ -63,11 +163,24 @@ export function App() {
     });
 
     // ── Caller: their request was declined ──────────────────
-    socket.on(EVENTS.CALL_DECLINE, () => {
+    socket.on(EVENTS.CALL_DECLINE, (payload: CallDeclinedPayload) => {
       voiceChat.endCall();
-      setCallError("They declined the call.");
+      setCallError(payload.reason === "busy"
+        ? "They're already in a call."
+        : "They declined the call.");
     });
 
+    // ── Either side: the call ended ──────────────────────────
+    // VoiceChat tears the connection down; here we just say why.
+    const onCallEnded = (payload: CallEndedPayload) => {
+      if (payload.reason === "missed") {
+        setCallError("The call wasn't answered.");
+      } else if (payload.reason === "disconnected") {
+        setCallError("Call ended — they lost connection.");
+      }
+    };
+    socket.on(EVENTS.CALL_END, onCallEnded);
+
     // ── Caller: they accepted, initiate WebRTC ───────────────
     // When callee accepts, caller sends the WebRTC offer.
     // This is handled inside VoiceChat via WEBRTC_OFFER socket listener.
@@ -83,12 +196,18 @@ export function App() {
       // for the same events are untouched.
       socket.off("connect",            onConnect);
       socket.off("disconnect",         onDisconnect);
-      socket.off(EVENTS.ROOM_STATE,    onRoomState);
+      socket.off(EVENTS.ROOM_ROSTER,   onRoster);
       socket.off(EVENTS.PLAYER_JOINED, onJoined);
       socket.off(EVENTS.PLAYER_LEFT,   onLeft);
+      socket.off(EVENTS.PLAYER_UPDATED, onUpdated);
+      socket.off(EVENTS.SELF_PLAYER,   onSelf);
+      socket.off(EVENTS.JOIN_REJECTED, onRejected);
+      socket.off(EVENTS.REMOVED,       onRemoved);
+      socket.off("connect_error",      onConnectError);
       socket.off(EVENTS.CALL_REQUEST);
       socket.off(EVENTS.CALL_DECLINE);
       socket.off(EVENTS.CALL_ACCEPT);
+      socket.off(EVENTS.CALL_END, onCallEnded);
     };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
@@ -134,12 +253,15 @@ export function App() {
   };
 
   // ── JOIN / LEAVE ─────────────────────────────────────────────
-  const handleJoin = () => {
-    const roomId = roomInput.trim().toLowerCase().replace(/\s+/g, "-");
-    if (!roomId) return;
+  const enterRoom = (roomId: string, options: JoinOptions = {}) => {
+    const name = nameInput.trim();
+    if (!roomId || !name) return;
+    localStorage.setItem(NAME_KEY, name);
+    setLobbyError(null);
     setAppState("connecting");
     const doEnter = () => {
       setNearbyId(null); // clear any stale proximity state from previous session
+      setJoinOptions(options);
       setCurrentRoom(roomId);
       setAppState("in-game");
     };
@@ -147,13 +269,64 @@ export function App() {
     else { socket.connect(); socket.once("connect", doEnter); }
   };
 
+  // An invite link pasted into the room field works like opening it
+  const handleJoin = () => {
+    const pasted = readInviteLink(roomInput);
+    const link = pasted ?? invite;
+    const roomId = pasted ? pasted.roomId : toRoomId(roomInput);
+    if (pasted) {
+      setInvite(pasted);
+      setRoomInput(pasted.roomId);
+    }
+    enterRoom(roomId, {
+      invite: link?.roomId === roomId ? link.token : undefined,
+      password: needsPassword && passwordInput ? passwordInput : undefined,
+    });
+  };
+
+  const handleRoomInput = (value: string) => {
+    setRoomInput(value);
+    setNeedsPassword(false);
+    setPasswordInput("");
+  };
+
+  const handleCreate = async (roomName: string, settings: NewRoomSettings) => {
+    const roomId = toRoomId(roomName);
+    if (!roomId) return;
+    // The server ignores settings for a room that already exists —
+    // say so instead of quietly dropping them in someone else's room
+    try {
+      if (await fetchRoom(roomId)) {
+        setLobbyError(`"${roomId}" already exists — pick it from the list to join.`);
+        return;
+      }
+    } catch {
+      // Directory unreachable — the join itself will report any problem
+    }
+    setRoomInput(roomId);
+    enterRoom(roomId, { create: settings, password: settings.password });
+  };
+
+  const showLobbyMode = (mode: LobbyMode) => {
+    setLobbyMode(mode);
+    setLobbyError(null);
+  };
+
+  // Forget the room we were in, on the way back to the lobby
+  const resetRoom = () => {
+    setLobbyMode("join");
+    setIsReconnecting(false);
+    setCurrentRoom("");
+    setPlayers(new Map());
+    setSelf(null);
+    setNearbyId(null);
+  };
+
   const handleLeave = () => {
     voiceChat.endCall();
     socket.disconnect();
     setAppState("lobby");
-    setCurrentRoom("");
-    setPlayerCount(0);
-    setNearbyId(null);
+    resetRoom();
   };
 
   // ── RENDER ────────────────────────────────────────────────────
@@ -164,18 +337,72 @@ export function App() {
           <div className="lobby-logo">mping</div>
           <p className="lobby-tagline">A world to explore together.</p>
           <div className="lobby-form">
-            <label htmlFor="room-input">Room name</label>
+            <label htmlFor="name-input">Your name</label>
             <input
-              id="room-input" type="text" value={roomInput}
-              onChange={(e) => setRoomInput(e.target.value)}
+              id="name-input" type="text" value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
               onKeyDown={(e) => e.key === "Enter" && handleJoin()}
-              placeholder="e.g. town-square"
+              placeholder="What should people call you?"
+              maxLength={NAME_MAX_LENGTH}
               disabled={appState === "connecting"}
             />
-            <p className="lobby-hint">Same room name = same world. Share it with a friend!</p>
-            <button className="lobby-btn" onClick={handleJoin} disabled={appState === "connecting"}>
-              {appState === "connecting" ? "Connecting..." : "Enter World"}
-            </button>
+            {lobbyMode === "join" ? (
+              <>
+                <label>Rooms</label>
+                <RoomBrowser
+                  selectedId={toRoomId(roomInput)}
+                  onSelect={handleRoomInput}
+                  disabled={appState === "connecting"}
+                />
+                <label htmlFor="room-input">Room name</label>
+                <input
+                  id="room-input" type="text" value={roomInput}
+                  onChange={(e) => handleRoomInput(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleJoin()}
+                  placeholder="e.g. town-square, or paste an invite link"
+                  disabled={appState === "connecting"}
+                />
+                {needsPassword && (
+                  <>
+                    <label htmlFor="room-password">Room password</label>
+                    <input
+                      id="room-password" type="password" value={passwordInput}
+                      onChange={(e) => setPasswordInput(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleJoin()}
+                      maxLength={ROOM_PASSWORD_MAX_LENGTH}
+                      autoComplete="off"
+                      disabled={appState === "connecting"}
+                    />
+                  </>
+                )}
+                <p className="lobby-hint">
+                  {invite && invite.roomId === toRoomId(roomInput)
+                    ? <>You've been invited to <strong>{invite.roomId}</strong>.</>
+                    : "Same room name = same world. Share it with a friend!"}
+                </p>
+                {lobbyError && <p className="lobby-error">{lobbyError}</p>}
+                <button
+                  className="lobby-btn" onClick={handleJoin}
+                  disabled={appState === "connecting" || !nameInput.trim()}
+                >
+                  {appState === "connecting" ? "Connecting..." : "Enter World"}
+                </button>
+                <button
+                  className="lobby-link" onClick={() => showLobbyMode("create")}
+                  disabled={appState === "connecting"}
+                >
+                  + Create a room
+                </button>
+              </>
+            ) : (
+              <CreateRoomForm
+                onCreate={handleCreate}
+                onCancel={() => showLobbyMode("join")}
+                busy={appState === "connecting"}
+                canSubmit={!!nameInput.trim()}
+                error={lobbyError}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -186,6 +413,8 @@ export function App() {
     <div>
       <PhaserGame
         roomId={currentRoom}
+        profile={{ name: nameInput.trim() }}
+        joinOptions={joinOptions}
         onNearbyChange={handleNearbyChange}
         onTalkClicked={handleTalkClicked}
       />
@@ -196,15 +425,24 @@ export function App() {
           <span className="hud-dot" style={{ background: isConnected ? "#4ECDC4" : "#FF6B6B" }} />
           {currentRoom}
         </div>
-        <div className="hud-players">👥 {playerCount}</div>
+        <div className="hud-players">👥 {players.size + 1}</div>
+        {self && <ProfileEditor name={self.name} status={self.status} />}
+        <InviteLink />
+        <BlockList players={players} />
         <button className="hud-leave" onClick={handleLeave}>Leave</button>
       </div>
 
+      <AnnouncementBanner />
+
+      {isReconnecting && (
+        <div className="reconnecting-banner">Connection lost — reconnecting…</div>
+      )}
+
       {/* Call overlay — handles all call states */}
       <CallOverlay
         callState={callState}
-        peerId={callPeerId}
-        nearbyId={nearbyId}
+        peer={callPeerId ? players.get(callPeerId) ?? null : null}
+        nearby={nearbyId ? players.get(nearbyId) ?? null : null}
         onTalkRequest={() => nearbyId && handleTalkClicked(nearbyId)}
         onAccept={handleAccept}
         onDecline={handleDecline}
@@ -214,8 +452,10 @@ export function App() {
         error={callError}
       />
 
+      <ChatPanel players={players} selfId={self?.id ?? null} />
+
       <div className="controls-hint">
-        WASD / Arrow keys to move · Click to teleport
+        WASD / Arrow keys to move · Click to walk · Enter to chat
         {nearbyId && callState === "idle" && " · T = Talk"}
       </div>
     </div>
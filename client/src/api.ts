@@ -0,0 +1,24 @@
+import { RoomInfo, RoomDetails } from "@mping/shared";
+import { SERVER_URL } from "./socket";
+
+// ─────────────────────────────────────────────────────────────────
+//  REST API
+//
+//  Everything in-world goes over the socket; the lobby runs before we
+//  connect one, so it asks the server's HTTP endpoints instead.
+// ─────────────────────────────────────────────────────────────────
+
+/** Every room with players in it, busiest first. */
+export async function fetchRooms(): Promise<RoomInfo[]> {
+  const res = await fetch(`${SERVER_URL}/rooms`);
+  if (!res.ok) throw new Error(`GET /rooms failed: ${res.status}`);
+  return res.json();
+}
+
+/** One room, or null if it doesn't exist (nobody is in it). */
+export async function fetchRoom(roomId: string): Promise<RoomDetails | null> {
+  const res = await fetch(`${SERVER_URL}/rooms/${encodeURIComponent(roomId)}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`GET /rooms/${roomId} failed: ${res.status}`);
+  return res.json();
+}
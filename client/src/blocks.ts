@@ -0,0 +1,30 @@
+import { socket } from "./socket";
+import { EVENTS, BlockEntry } from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  BLOCK LIST  —  who we've blocked, as the server last told us
+//
+//  The server sends the whole list on connect and after every change
+//  (BLOCK_LIST) — before WorldScene even exists, so it's kept here
+//  rather than in whoever happens to be listening. Change it by
+//  emitting BLOCK_SET / BLOCK_REMOVE; the update arrives here.
+// ─────────────────────────────────────────────────────────────────
+
+let current: BlockEntry[] = [];
+const listeners = new Set<(blocks: BlockEntry[]) => void>();
+
+socket.on(EVENTS.BLOCK_LIST, (blocks) => {
+  current = blocks;
+  for (const listener of listeners) listener(blocks);
+});
+
+/** The latest block list. */
+export function getBlocks(): BlockEntry[] {
+  return current;
+}
+
+/** Call `listener` with every new list. Returns the unsubscribe. */
+export function onBlocksChanged(listener: (blocks: BlockEntry[]) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
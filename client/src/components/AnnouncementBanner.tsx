@@ -0,0 +1,30 @@
+import { useState, useEffect } from "react";
+import { socket } from "../socket";
+import { EVENTS, AnnouncementPayload } from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  ANNOUNCEMENT BANNER  —  system messages from the server's admins
+//
+//  Shows the latest ANNOUNCEMENT at the top of the screen until it's
+//  dismissed or replaced by a newer one. Nothing is kept: someone who
+//  joins after an announcement doesn't see it.
+// ─────────────────────────────────────────────────────────────────
+export function AnnouncementBanner() {
+  const [announcement, setAnnouncement] = useState<AnnouncementPayload | null>(null);
+
+  useEffect(() => {
+    const onAnnouncement = (a: AnnouncementPayload) => setAnnouncement(a);
+    socket.on(EVENTS.ANNOUNCEMENT, onAnnouncement);
+    return () => { socket.off(EVENTS.ANNOUNCEMENT, onAnnouncement); };
+  }, []);
+
+  if (!announcement) return null;
+
+  return (
+    <div className="announcement" role="status">
+      <span>📢</span>
+      <span className="announcement-text">{announcement.text}</span>
+      <button className="announcement-close" onClick={() => setAnnouncement(null)} title="Dismiss">×</button>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect } from "react";
+import { socket } from "../socket";
+import { getBlocks, onBlocksChanged } from "../blocks";
+import { EVENTS, BlockEntry, PlayerProfile, BLOCK_LIST_MAX } from "@mping/shared";
+
+interface BlockListProps {
+  players: Map<string, PlayerProfile>;  // everyone else in the room
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  BLOCK LIST  —  "Blocked" in the HUD
+//
+//  Block someone in the room, choose whether to hide their avatar
+//  and/or yours from them, or unblock. Like the profile editor we
+//  change nothing locally: the server confirms with the whole list
+//  (see blocks.ts), which is what we show.
+// ─────────────────────────────────────────────────────────────────
+export function BlockList({ players }: BlockListProps) {
+  const [open, setOpen] = useState(false);
+  const [blocks, setBlocks] = useState<BlockEntry[]>(getBlocks);
+  const [target, setTarget] = useState("");
+
+  useEffect(() => onBlocksChanged(setBlocks), []);
+
+  const blockedIds = new Set(blocks.map((b) => b.playerId));
+  const candidates = Array.from(players).filter(([id]) => !blockedIds.has(id));
+
+  const handleBlock = () => {
+    if (!target) return;
+    socket.emit(EVENTS.BLOCK_SET, { playerId: target });
+    setTarget("");
+  };
+
+  const update = (entry: BlockEntry, changes: Partial<BlockEntry>) => {
+    const { playerId, hideTheirAvatar, hideMyAvatar } = { ...entry, ...changes };
+    socket.emit(EVENTS.BLOCK_SET, { playerId, hideTheirAvatar, hideMyAvatar });
+  };
+
+  return (
+    <div className="profile">
+      <button className="hud-leave" onClick={() => setOpen((o) => !o)}>
+        Blocked{blocks.length > 0 && ` (${blocks.length})`}
+      </button>
+
+      {open && (
+        <div className="profile-editor block-list">
+          {blocks.length === 0 && <p className="invite-limits">Nobody blocked.</p>}
+          {blocks.map((b) => (
+            <div key={b.playerId} className="block-entry">
+              <span className="block-name">{b.name}</span>
+              <label>
+                <input
+                  type="checkbox" checked={b.hideTheirAvatar}
+                  onChange={(e) => update(b, { hideTheirAvatar: e.target.checked })}
+                />
+                Hide them from me
+              </label>
+              <label>
+                <input
+                  type="checkbox" checked={b.hideMyAvatar}
+                  onChange={(e) => update(b, { hideMyAvatar: e.target.checked })}
+                />
+                Hide me from them
+              </label>
+              <button className="hud-leave" onClick={() => socket.emit(EVENTS.BLOCK_REMOVE, { playerId: b.playerId })}>
+                Unblock
+              </button>
+            </div>
+          ))}
+
+          {blocks.length < BLOCK_LIST_MAX && (
+            <>
+              <select value={target} onChange={(e) => setTarget(e.target.value)}>
+                <option value="">Block someone…</option>
+                {candidates.map(([id, p]) => <option key={id} value={id}>{p.name}</option>)}
+              </select>
+              <button className="profile-save" onClick={handleBlock} disabled={!target}>Block</button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
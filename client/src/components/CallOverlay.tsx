@@ -1,9 +1,10 @@
+import { PlayerProfile } from "@mping/shared";
 import { CallState } from "../voice/VoiceChat";
 
 interface CallOverlayProps {
   callState: CallState;
-  peerId: string | null;          // who we're calling / being called by
-  nearbyId: string | null;        // player in proximity range
+  peer: PlayerProfile | null;     // who we're calling / being called by
+  nearby: PlayerProfile | null;   // player in proximity range
   onTalkRequest: () => void;      // user clicks "Talk" button
   onAccept: () => void;
   onDecline: () => void;
@@ -13,13 +14,14 @@ interface CallOverlayProps {
   error: string | null;
 }
 
-// Short display name: just the first 8 chars of the socket ID
-const shortId = (id: string | null) => id?.slice(0, 8) ?? "unknown";
+// Fallback for the moment between an event arriving and the room
+// directory catching up (e.g. a call from someone who just left)
+const nameOf = (p: PlayerProfile | null) => p?.name ?? "Someone";
 
 export function CallOverlay({
   callState,
-  peerId,
-  nearbyId,
+  peer,
+  nearby,
   onTalkRequest,
   onAccept,
   onDecline,
@@ -31,12 +33,13 @@ export function CallOverlay({
   // ── PROXIMITY "Talk" button ─────────────────────────────────
   // When idle and someone is nearby, show a subtle Talk button in the HUD.
   // This complements the in-world "[T] Talk" Phaser label.
-  if (callState === "idle" && nearbyId) {
+  if (callState === "idle" && nearby) {
     return (
       <div className="call-proximity">
         <span className="call-prox-dot" />
         <span className="call-prox-label">
-          Player <strong>{shortId(nearbyId)}</strong> is nearby
+          <strong>{nameOf(nearby)}</strong> is nearby
+          {nearby.status && <span className="call-prox-status"> · {nearby.status}</span>}
         </span>
         <button className="call-btn call-btn--talk" onClick={onTalkRequest}>
           🎙 Talk
@@ -52,7 +55,7 @@ export function CallOverlay({
         <div className="call-card">
           <div className="call-avatar">🎙</div>
           <p className="call-status">Calling…</p>
-          <p className="call-peer">{shortId(peerId)}</p>
+          <p className="call-peer">{nameOf(peer)}</p>
           <p className="call-hint">Waiting for them to accept</p>
           <button className="call-btn call-btn--end" onClick={onHangUp}>
             Cancel
@@ -69,7 +72,8 @@ export function CallOverlay({
         <div className="call-card">
           <div className="call-avatar call-avatar--ring">🎙</div>
           <p className="call-status">Incoming voice call</p>
-          <p className="call-peer">{shortId(peerId)}</p>
+          <p className="call-peer">{nameOf(peer)}</p>
+          {peer?.status && <p className="call-hint">{peer.status}</p>}
           <div className="call-actions">
             <button className="call-btn call-btn--accept" onClick={onAccept}>
               ✓ Accept
@@ -89,7 +93,7 @@ export function CallOverlay({
       <div className="call-active">
         <span className="call-active-dot" />
         <span className="call-active-label">
-          🎙 Voice call with <strong>{shortId(peerId)}</strong>
+          🎙 Voice call with <strong>{nameOf(peer)}</strong>
         </span>
         <button
           className={`call-btn call-btn--mute ${isMuted ? "call-btn--muted" : ""}`}
@@ -0,0 +1,189 @@
+import { useState, useEffect, useRef } from "react";
+import { socket } from "../socket";
+import {
+  EVENTS, ChatMessage, ChatScope, ChatRejectedPayload,
+  PlayerProfile, CHAT_MAX_LENGTH,
+} from "@mping/shared";
+
+interface ChatPanelProps {
+  players: Map<string, PlayerProfile>;  // everyone else in the room
+  selfId: string | null;                // our player ID (to label DMs)
+}
+
+// Keep the client list bounded too — a long session shouldn't grow forever
+const MAX_MESSAGES = 200;
+
+const SCOPE_LABEL: Record<ChatScope, string> = {
+  room: "Room",
+  proximity: "Nearby",
+  direct: "Direct",
+};
+
+// ─────────────────────────────────────────────────────────────────
+//  CHAT PANEL  —  collapsible text chat in the HUD
+//
+//  WHY always mounted (even collapsed)?
+//  Messages arrive whether or not the panel is open. Collapsing just
+//  hides the list and counts unread messages.
+//
+//  Focus rules, so chatting never fights walking:
+//    • Nothing here auto-focuses. WASD keeps driving the avatar.
+//    • Enter (outside any text field) opens the panel and focuses input.
+//    • Enter in the input sends and hands focus back to the game.
+//    • Escape hands focus back without sending.
+//  While the input has focus, WorldScene releases the keyboard.
+// ─────────────────────────────────────────────────────────────────
+export function ChatPanel({ players, selfId }: ChatPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [scope, setScope] = useState<ChatScope>("room");
+  const [dmTarget, setDmTarget] = useState("");
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const openRef = useRef(open);
+  openRef.current = open;
+
+  // ── SOCKET ───────────────────────────────────────────────────
+  useEffect(() => {
+    const onMessage = (msg: ChatMessage) => {
+      setMessages((prev) => [...prev, msg].slice(-MAX_MESSAGES));
+      if (!openRef.current) setUnread((n) => n + 1);
+    };
+    // History arrives on every (re)join. Merge by ID so a reconnect
+    // doesn't wipe the direct/nearby messages we already have.
+    const onHistory = (history: ChatMessage[]) => {
+      setMessages((prev) => {
+        const seen = new Set(prev.map((m) => m.id));
+        return [...prev, ...history.filter((m) => !seen.has(m.id))]
+          .sort((a, b) => a.sentAt - b.sentAt)
+          .slice(-MAX_MESSAGES);
+      });
+    };
+    const onRejected = (r: ChatRejectedPayload) => setError(r.message);
+
+    socket.on(EVENTS.CHAT_MESSAGE,  onMessage);
+    socket.on(EVENTS.CHAT_HISTORY,  onHistory);
+    socket.on(EVENTS.CHAT_REJECTED, onRejected);
+    return () => {
+      socket.off(EVENTS.CHAT_MESSAGE,  onMessage);
+      socket.off(EVENTS.CHAT_HISTORY,  onHistory);
+      socket.off(EVENTS.CHAT_REJECTED, onRejected);
+    };
+  }, []);
+
+  // ── ENTER TO CHAT ────────────────────────────────────────────
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Enter") return;
+      const el = document.activeElement;
+      if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      setOpen(true);
+      setUnread(0);
+      // Wait a tick so the input exists when opening from collapsed
+      setTimeout(() => inputRef.current?.focus(), 0);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Stick to the newest message
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages, open]);
+
+  // DM target left the room — fall back to room chat
+  useEffect(() => {
+    if (scope === "direct" && dmTarget && !players.has(dmTarget)) setDmTarget("");
+  }, [players, scope, dmTarget]);
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text) return;
+    if (scope === "direct" && !dmTarget) {
+      setError("Pick someone to message.");
+      return;
+    }
+    setError(null);
+    socket.emit(EVENTS.CHAT_SEND, {
+      scope,
+      text,
+      to: scope === "direct" ? dmTarget : undefined,
+    });
+    setDraft("");
+  };
+
+  const onInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      send();
+      e.currentTarget.blur();
+    }
+    if (e.key === "Escape") e.currentTarget.blur();
+  };
+
+  const toggle = () => {
+    setOpen((o) => !o);
+    setUnread(0);
+  };
+
+  const nameOf = (id: string | undefined) =>
+    (id && players.get(id)?.name) ?? "someone";
+
+  const describe = (m: ChatMessage) => {
+    if (m.scope === "direct") {
+      return m.from === selfId ? `→ ${nameOf(m.to)}` : `${m.fromName} → you`;
+    }
+    return m.fromName;
+  };
+
+  return (
+    <div className={`chat ${open ? "chat--open" : ""}`}>
+      <button className="chat-toggle" onClick={toggle}>
+        💬 Chat {unread > 0 && <span className="chat-unread">{unread}</span>}
+      </button>
+
+      {open && (
+        <>
+          <div className="chat-list" ref={listRef}>
+            {messages.length === 0 && <p className="chat-empty">No messages yet. Say hi!</p>}
+            {messages.map((m) => (
+              <p key={m.id} className={`chat-msg chat-msg--${m.scope}`}>
+                {m.scope !== "room" && <span className="chat-scope">{SCOPE_LABEL[m.scope]}</span>}
+                <strong>{describe(m)}:</strong> {m.text}
+              </p>
+            ))}
+          </div>
+
+          {error && <p className="chat-error">{error}</p>}
+
+          <div className="chat-compose">
+            <select value={scope} onChange={(e) => setScope(e.target.value as ChatScope)}>
+              <option value="room">Room</option>
+              <option value="proximity">Nearby</option>
+              <option value="direct">Direct</option>
+            </select>
+            {scope === "direct" && (
+              <select value={dmTarget} onChange={(e) => setDmTarget(e.target.value)}>
+                <option value="">To…</option>
+                {Array.from(players, ([id, p]) => (
+                  <option key={id} value={id}>{p.name}</option>
+                ))}
+              </select>
+            )}
+            <input
+              ref={inputRef} type="text" value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={onInputKeyDown}
+              placeholder="Press Enter to chat"
+              maxLength={CHAT_MAX_LENGTH}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
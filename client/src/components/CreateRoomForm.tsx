@@ -0,0 +1,110 @@
+import { useState } from "react";
+import {
+  NewRoomSettings,
+  ROOM_ID_MAX_LENGTH, ROOM_TITLE_MAX_LENGTH, ROOM_DESCRIPTION_MAX_LENGTH,
+  ROOM_MIN_CAPACITY, ROOM_MAX_CAPACITY, ROOM_PASSWORD_MAX_LENGTH,
+} from "@mping/shared";
+
+interface CreateRoomFormProps {
+  onCreate: (roomName: string, settings: NewRoomSettings) => void;
+  onCancel: () => void;
+  busy: boolean;                       // connecting — lock the form
+  canSubmit: boolean;                  // e.g. false until a player name is entered
+  error: string | null;                // why the last attempt failed
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  CREATE ROOM  —  the lobby's "new room" form
+//
+//  Everything but the room name is optional. The settings travel with
+//  our JOIN_ROOM (`create`), and the server applies them only if the
+//  room doesn't exist yet — it also has the final say on the limits.
+//
+//  A private room stays out of the room list. With a password, anyone
+//  who knows it can join; without one it's invite-only, and whoever is
+//  inside hands out invite links from the HUD.
+// ─────────────────────────────────────────────────────────────────
+export function CreateRoomForm({ onCreate, onCancel, busy, canSubmit, error }: CreateRoomFormProps) {
+  const [roomName, setRoomName] = useState("");
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [capacity, setCapacity] = useState("");
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const handleCreate = () => {
+    if (!roomName.trim()) return;
+    const settings: NewRoomSettings = {};
+    if (title.trim()) settings.title = title;
+    if (description.trim()) settings.description = description;
+    if (capacity) settings.maxPlayers = Number(capacity);
+    if (isPrivate) settings.private = true;
+    if (isPrivate && password) settings.password = password;
+    onCreate(roomName, settings);
+  };
+
+  return (
+    <>
+      <label htmlFor="new-room-id">Room name</label>
+      <input
+        id="new-room-id" type="text" value={roomName}
+        onChange={(e) => setRoomName(e.target.value)}
+        placeholder="e.g. book-club"
+        maxLength={ROOM_ID_MAX_LENGTH}
+        disabled={busy}
+      />
+      <label htmlFor="new-room-title">Title (optional)</label>
+      <input
+        id="new-room-title" type="text" value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Book Club"
+        maxLength={ROOM_TITLE_MAX_LENGTH}
+        disabled={busy}
+      />
+      <label htmlFor="new-room-description">Description (optional)</label>
+      <input
+        id="new-room-description" type="text" value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="What's this room for?"
+        maxLength={ROOM_DESCRIPTION_MAX_LENGTH}
+        disabled={busy}
+      />
+      <label htmlFor="new-room-capacity">Max players (optional)</label>
+      <input
+        id="new-room-capacity" type="number" value={capacity}
+        onChange={(e) => setCapacity(e.target.value)}
+        placeholder="No limit"
+        min={ROOM_MIN_CAPACITY} max={ROOM_MAX_CAPACITY} step={1}
+        disabled={busy}
+      />
+      <label className="lobby-check">
+        <input
+          type="checkbox" checked={isPrivate}
+          onChange={(e) => setIsPrivate(e.target.checked)}
+          disabled={busy}
+        />
+        Private — hidden from the room list
+      </label>
+      {isPrivate && (
+        <>
+          <label htmlFor="new-room-password">Password (optional)</label>
+          <input
+            id="new-room-password" type="password" value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Leave empty for invite links only"
+            maxLength={ROOM_PASSWORD_MAX_LENGTH}
+            autoComplete="new-password"
+            disabled={busy}
+          />
+        </>
+      )}
+      {error && <p className="lobby-error">{error}</p>}
+      <button className="lobby-btn" onClick={handleCreate} disabled={busy || !canSubmit || !roomName.trim()}>
+        {busy ? "Connecting..." : "Create & Enter"}
+      </button>
+      <button className="lobby-link" onClick={onCancel} disabled={busy}>
+        Back to rooms
+      </button>
+    </>
+  );
+}
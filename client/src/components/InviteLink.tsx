@@ -0,0 +1,103 @@
+import { useState, useEffect } from "react";
+import { socket } from "../socket";
+import { inviteUrl } from "../invite";
+import { EVENTS, InvitePayload, InviteRequestPayload } from "@mping/shared";
+
+// Choices offered in the form; `undefined` = no limit
+const EXPIRY_OPTIONS: { label: string; ttlMs?: number }[] = [
+  { label: "1 hour", ttlMs: 60 * 60_000 },
+  { label: "1 day", ttlMs: 24 * 60 * 60_000 },
+  { label: "7 days", ttlMs: 7 * 24 * 60 * 60_000 },
+  { label: "Never" },
+];
+const USES_OPTIONS: { label: string; maxUses?: number }[] = [
+  { label: "1 person", maxUses: 1 },
+  { label: "10 people", maxUses: 10 },
+  { label: "Anyone" },
+];
+
+// ─────────────────────────────────────────────────────────────────
+//  INVITE LINK  —  "Invite" in the HUD
+//
+//  Asks the server for an invite to our room (INVITE_CREATE) and shows
+//  the link to share. The server issues the token and enforces the
+//  limits; opening the link drops the guest straight into this room,
+//  private or not.
+// ─────────────────────────────────────────────────────────────────
+export function InviteLink() {
+  const [open, setOpen] = useState(false);
+  const [expiry, setExpiry] = useState(1);
+  const [uses, setUses] = useState(0);
+  const [invite, setInvite] = useState<InvitePayload | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const onCreated = (created: InvitePayload) => {
+      setInvite(created);
+      setCopied(false);
+    };
+    socket.on(EVENTS.INVITE_CREATED, onCreated);
+    return () => { socket.off(EVENTS.INVITE_CREATED, onCreated); };
+  }, []);
+
+  const handleCreate = () => {
+    const request: InviteRequestPayload = {
+      ttlMs: EXPIRY_OPTIONS[expiry].ttlMs,
+      maxUses: USES_OPTIONS[uses].maxUses,
+    };
+    socket.emit(EVENTS.INVITE_CREATE, request);
+  };
+
+  const handleCopy = async () => {
+    if (!invite) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invite));
+      setCopied(true);
+    } catch {
+      // No clipboard (plain HTTP, permissions) — the link is selectable
+    }
+  };
+
+  const toggle = () => {
+    setOpen((o) => !o);
+    setInvite(null);
+  };
+
+  return (
+    <div className="profile">
+      <button className="hud-leave" onClick={toggle}>Invite</button>
+
+      {open && (
+        <div className="profile-editor">
+          {invite ? (
+            <>
+              <input type="text" readOnly value={inviteUrl(invite)} onFocus={(e) => e.target.select()} />
+              <p className="invite-limits">
+                {invite.maxUses === null
+                  ? "Any number of people"
+                  : `${invite.maxUses} ${invite.maxUses === 1 ? "person" : "people"}`}
+                {" · "}
+                {invite.expiresAt === null
+                  ? "never expires"
+                  : `until ${new Date(invite.expiresAt).toLocaleString()}`}
+              </p>
+              <button className="profile-save" onClick={handleCopy}>
+                {copied ? "Copied!" : "Copy link"}
+              </button>
+            </>
+          ) : (
+            <>
+              <select value={expiry} onChange={(e) => setExpiry(Number(e.target.value))}>
+                {EXPIRY_OPTIONS.map((o, i) => <option key={o.label} value={i}>Expires: {o.label}</option>)}
+              </select>
+              <select value={uses} onChange={(e) => setUses(Number(e.target.value))}>
+                {USES_OPTIONS.map((o, i) => <option key={o.label} value={i}>For: {o.label}</option>)}
+              </select>
+              <button className="profile-save" onClick={handleCreate}>Create link</button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect } from "react";
+import { socket } from "../socket";
+import {
+  EVENTS, ProfileRejectedPayload,
+  NAME_MAX_LENGTH, STATUS_MAX_LENGTH,
+} from "@mping/shared";
+
+interface ProfileEditorProps {
+  name: string;             // current name, as confirmed by the server
+  status?: string;          // current status line
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  PROFILE EDITOR  —  rename / set status mid-session
+//
+//  Shows our name in the HUD; clicking it opens a small form. We don't
+//  update anything locally on Save — the server validates, then
+//  broadcasts PLAYER_UPDATED to the room (us included), and App.tsx
+//  passes the confirmed values back down as props.
+// ─────────────────────────────────────────────────────────────────
+export function ProfileEditor({ name, status }: ProfileEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [nameDraft, setNameDraft] = useState(name);
+  const [statusDraft, setStatusDraft] = useState(status ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  // Server confirmed a change (ours or a re-sync) — close and reset drafts
+  useEffect(() => {
+    setNameDraft(name);
+    setStatusDraft(status ?? "");
+    setOpen(false);
+    setError(null);
+  }, [name, status]);
+
+  useEffect(() => {
+    const onRejected = (r: ProfileRejectedPayload) => setError(r.message);
+    socket.on(EVENTS.PROFILE_REJECTED, onRejected);
+    return () => { socket.off(EVENTS.PROFILE_REJECTED, onRejected); };
+  }, []);
+
+  const handleSave = () => {
+    setError(null);
+    socket.emit(EVENTS.UPDATE_PROFILE, {
+      name: nameDraft,
+      status: statusDraft,
+    });
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") handleSave();
+    if (e.key === "Escape") setOpen(false);
+  };
+
+  return (
+    <div className="profile">
+      <button className="profile-name" onClick={() => setOpen((o) => !o)} title="Edit name and status">
+        {name}
+        {status && <span className="profile-status"> · {status}</span>}
+      </button>
+
+      {open && (
+        <div className="profile-editor">
+          <input
+            type="text" value={nameDraft} autoFocus
+            onChange={(e) => setNameDraft(e.target.value)}
+            onKeyDown={onKeyDown}
+            placeholder="Name" maxLength={NAME_MAX_LENGTH}
+          />
+          <input
+            type="text" value={statusDraft}
+            onChange={(e) => setStatusDraft(e.target.value)}
+            onKeyDown={onKeyDown}
+            placeholder="Status (optional)" maxLength={STATUS_MAX_LENGTH}
+          />
+          {error && <p className="profile-error">{error}</p>}
+          <button className="profile-save" onClick={handleSave} disabled={!nameDraft.trim()}>
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
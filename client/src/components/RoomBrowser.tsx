@@ -0,0 +1,64 @@
+import { useState, useEffect } from "react";
+import { RoomInfo } from "@mping/shared";
+import { fetchRooms } from "../api";
+
+interface RoomBrowserProps {
+  selectedId: string;                  // highlighted room (the room input's value)
+  onSelect: (roomId: string) => void;  // a room was clicked
+  disabled?: boolean;
+}
+
+// How often the list refreshes while the lobby is open
+const POLL_INTERVAL_MS = 3000;
+
+// ─────────────────────────────────────────────────────────────────
+//  ROOM BROWSER  —  the lobby's live list of rooms
+//
+//  Polls GET /rooms while mounted. WHY poll instead of a socket?
+//  The lobby has no socket yet — we only connect on entering a room —
+//  and a few small requests while someone is choosing a room cost
+//  less than holding a connection open for it.
+// ─────────────────────────────────────────────────────────────────
+export function RoomBrowser({ selectedId, onSelect, disabled }: RoomBrowserProps) {
+  const [rooms, setRooms] = useState<RoomInfo[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => fetchRooms()
+      .then((list) => { if (!cancelled) { setRooms(list); setFailed(false); } })
+      .catch(() => { if (!cancelled) setFailed(true); });
+
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => { cancelled = true; clearInterval(timer); };
+  }, []);
+
+  if (failed && !rooms) return <p className="rooms-empty">Couldn't load rooms.</p>;
+  if (!rooms) return <p className="rooms-empty">Loading rooms…</p>;
+  if (rooms.length === 0) return <p className="rooms-empty">No one's around yet — create a room!</p>;
+
+  return (
+    <ul className="rooms">
+      {rooms.map((room) => {
+        const full = room.maxPlayers !== undefined && room.playerCount >= room.maxPlayers;
+        return (
+          <li key={room.id}>
+            <button
+              className={`room${room.id === selectedId ? " room--selected" : ""}`}
+              onClick={() => onSelect(room.id)}
+              disabled={disabled || full}
+              title={room.description}
+            >
+              <span className="room-title">{room.title ?? room.id}</span>
+              <span className={`room-count${full ? " room-count--full" : ""}`}>
+                {full ? "Full" : `${room.playerCount}${room.maxPlayers ? ` / ${room.maxPlayers}` : ""}`}
+              </span>
+              {room.description && <span className="room-description">{room.description}</span>}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,143 @@
+import { PLAYER_SPEED, TICK_INTERVAL_MS } from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  SNAPSHOT INTERPOLATION
+//
+//  Remote avatars are drawn slightly in the past: at "server time
+//  now − INTERP_DELAY_MS", somewhere between two snapshots we already
+//  have. As long as the next snapshot lands within the delay, motion
+//  is perfectly smooth no matter how bunched up the packets arrive.
+//
+//    samples:   ●────────●────────●
+//    render:            ▲ (lerp between the two around it)
+//
+//  When the buffer runs dry (late packet) we keep going in the same
+//  direction for up to MAX_EXTRAPOLATE_MS, then hold. A jump bigger
+//  than SNAP_DISTANCE (a correction, a respawn) is never smoothed over.
+//
+//  The delay trades latency for smoothness: two ticks absorbs one
+//  late snapshot. Override with VITE_INTERP_DELAY_MS for testing on
+//  worse (or better) connections.
+// ─────────────────────────────────────────────────────────────────
+export const INTERP_DELAY_MS =
+  Number(import.meta.env.VITE_INTERP_DELAY_MS) || TICK_INTERVAL_MS * 2;
+
+const MAX_EXTRAPOLATE_MS = 250;
+const SNAP_DISTANCE      = PLAYER_SPEED;  // further than a second's walk
+const MAX_SAMPLES        = 32;
+
+interface Sample {
+  t: number;  // server time, ms
+  x: number;
+  y: number;
+}
+
+/** Where to draw an avatar, and how fast it's really going (px/s). */
+export interface InterpolatedState {
+  x: number;
+  y: number;
+  speed: number;
+}
+
+/** Position history for one remote player. */
+export class InterpolationBuffer {
+  private samples: Sample[] = [];
+  private rest: { x: number; y: number };
+
+  /** `x`, `y`: where the avatar is before any snapshot arrives. */
+  constructor(x: number, y: number) {
+    this.rest = { x, y };
+  }
+
+  /** Forget history and stand at (x, y) — after a fresh ROOM_STATE. */
+  reset(x: number, y: number) {
+    this.samples = [];
+    this.rest = { x, y };
+  }
+
+  /** Record a snapshot position stamped with the server's tick time. */
+  push(t: number, x: number, y: number) {
+    const last = this.samples[this.samples.length - 1];
+    if (last && t <= last.t) return;
+
+    const prev = last ?? this.rest;
+    if (Math.hypot(x - prev.x, y - prev.y) > SNAP_DISTANCE) {
+      // Teleport — start over so we jump straight there
+      this.samples = [];
+    } else if (!last || t - last.t > TICK_INTERVAL_MS * 2) {
+      // First move after standing still: snapshots only carry changes,
+      // so they stood at `prev` until about one tick ago. Without this
+      // we'd lerp across the whole idle gap and creep off early.
+      this.samples.push({ t: t - TICK_INTERVAL_MS, x: prev.x, y: prev.y });
+    }
+
+    this.samples.push({ t, x, y });
+    this.rest = { x, y };
+    if (this.samples.length > MAX_SAMPLES) this.samples.splice(0, this.samples.length - MAX_SAMPLES);
+  }
+
+  /** State at `renderTime` (server time, already delayed), or null if idle. */
+  sample(renderTime: number): InterpolatedState | null {
+    const s = this.samples;
+    if (s.length === 0) return null;
+
+    // Drop samples we've rendered past, keeping the pair around renderTime
+    while (s.length > 2 && s[1].t <= renderTime) s.shift();
+
+    const a = s[0];
+    if (renderTime <= a.t || s.length === 1) {
+      return { x: a.x, y: a.y, speed: 0 };
+    }
+
+    const b = s[1];
+    const vx = (b.x - a.x) / (b.t - a.t);
+    const vy = (b.y - a.y) / (b.t - a.t);
+    const speed = Math.hypot(vx, vy) * 1000;
+
+    if (renderTime <= b.t) {
+      const f = (renderTime - a.t) / (b.t - a.t);
+      return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f, speed };
+    }
+
+    // Past the newest snapshot — carry on briefly, then hold
+    const ahead = renderTime - b.t;
+    if (ahead > MAX_EXTRAPOLATE_MS) {
+      return { x: b.x + vx * MAX_EXTRAPOLATE_MS, y: b.y + vy * MAX_EXTRAPOLATE_MS, speed: 0 };
+    }
+    return { x: b.x + vx * ahead, y: b.y + vy * ahead, speed };
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  SERVER CLOCK
+//
+//  Snapshots are stamped with the server's clock, which won't match
+//  ours. We estimate the offset from the snapshot that arrived
+//  fastest recently: serverTime − receivedAt is largest when the
+//  network delay was smallest. A window (not all-time) lets the
+//  estimate follow clock drift.
+// ─────────────────────────────────────────────────────────────────
+const CLOCK_WINDOW = 30;
+
+export class ServerClock {
+  private offsets: number[] = [];
+  private offset = 0;
+
+  /** Feed one snapshot's server timestamp as it arrives. */
+  observe(serverTime: number) {
+    this.offsets.push(serverTime - Date.now());
+    if (this.offsets.length > CLOCK_WINDOW) this.offsets.shift();
+    this.offset = Math.max(...this.offsets);
+  }
+
+  /** Our best guess at the server's clock right now. */
+  now(): number {
+    return Date.now() + this.offset;
+  }
+
+  /** Forget everything — the server may have restarted. */
+  reset() {
+    this.offsets = [];
+    this.offset = 0;
+  }
+}
@@ -0,0 +1,77 @@
+import { MoveAckPayload, MovePayload } from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  CLIENT-SIDE PREDICTION
+//
+//  We move our own avatar the instant a key is pressed; the server
+//  gets each step as a numbered input and has the final say. Its
+//  answers (MOVE_ACK / POSITION_CORRECTION) are always a little stale,
+//  so we can't just jump to them — we'd undo everything we've walked
+//  since. Instead:
+//
+//    1. Keep every input the server hasn't acknowledged yet.
+//    2. On an ack for input N: forget inputs ≤ N, then replay the
+//       rest on top of the server's position.
+//    3. That's where we SHOULD be. Compare with where we predicted
+//       we'd be; if they match, nothing to do.
+//
+//  The replay is exact because the server applies the same steps
+//  (see MovePayload). Any difference is a real correction — a refused
+//  move, a clamp — and WorldScene smooths or snaps it.
+// ─────────────────────────────────────────────────────────────────
+
+interface PendingInput {
+  seq: number;
+  dx: number;
+  dy: number;
+}
+
+// Steps are rounded to keep packets small; `sent` accumulates the
+// rounded values so rounding never drifts from what the server summed.
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export class MovePredictor {
+  private seq = 0;
+  private pending: PendingInput[] = [];
+  // Where the server will have us once it applies every input sent so far
+  private sent: { x: number; y: number } | null = null;
+
+  /** Start over from a server-given position (spawn, rejoin). */
+  reset(x: number, y: number) {
+    this.pending = [];
+    this.sent = { x, y };
+  }
+
+  /** Turn our current position into the next input to send. */
+  record(x: number, y: number): MovePayload {
+    if (!this.sent) this.sent = { x, y };
+    const input = {
+      seq: ++this.seq,
+      dx: round2(x - this.sent.x),
+      dy: round2(y - this.sent.y),
+    };
+    this.sent.x += input.dx;
+    this.sent.y += input.dy;
+    this.pending.push(input);
+    return input;
+  }
+
+  /**
+   * The server processed input `ack.seq`. Returns how far off our
+   * prediction was — (0, 0) when the server agreed with every step.
+   * Add it to the avatar's position (all at once, or smoothed).
+   */
+  reconcile(ack: MoveAckPayload): { dx: number; dy: number } {
+    this.pending = this.pending.filter((p) => p.seq > ack.seq);
+    let x = ack.x;
+    let y = ack.y;
+    for (const p of this.pending) {
+      x += p.dx;
+      y += p.dy;
+    }
+
+    const error = this.sent ? { dx: x - this.sent.x, dy: y - this.sent.y } : { dx: 0, dy: 0 };
+    this.sent = { x, y };
+    return error;
+  }
+}
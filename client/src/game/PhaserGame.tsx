@@ -1,14 +1,17 @@
 import { useEffect, useRef } from "react";
 import Phaser from "phaser";
-import { WorldScene } from "./WorldScene";
+import { PlayerProfile } from "@mping/shared";
+import { WorldScene, JoinOptions } from "./WorldScene";
 
 interface PhaserGameProps {
   roomId: string;
+  profile: PlayerProfile;           // sent with JOIN_ROOM
+  joinOptions: JoinOptions;         // sent with JOIN_ROOM: new room settings, credentials
   onNearbyChange: (playerId: string | null) => void;
   onTalkClicked: (targetId: string) => void;
 }
 
-export function PhaserGame({ roomId, onNearbyChange, onTalkClicked }: PhaserGameProps) {
+export function PhaserGame({ roomId, profile, joinOptions, onNearbyChange, onTalkClicked }: PhaserGameProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const gameRef = useRef<Phaser.Game | null>(null);
 
@@ -32,10 +35,12 @@ export function PhaserGame({ roomId, onNearbyChange, onTalkClicked }: PhaserGame
 
     gameRef.current = new Phaser.Game(config);
 
-    // Pass roomId + React callbacks into the scene via Phaser's data system.
+    // Pass roomId, profile + React callbacks into the scene via Phaser's data system.
     // WorldScene.init() receives this object before create() runs.
     gameRef.current.scene.add("WorldScene", WorldScene, true, {
       roomId,
+      profile,
+      joinOptions,
       onNearbyChange,
       onTalkClicked,
     });
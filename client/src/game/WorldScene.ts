@@ -1,16 +1,26 @@
 import Phaser from "phaser";
 import { socket } from "../socket";
-import { EVENTS, Player, MovePayload } from "@mping/shared";
+import { getBlocks, onBlocksChanged } from "../blocks";
+import { InterpolationBuffer, ServerClock, INTERP_DELAY_MS } from "./InterpolationBuffer";
+import { MovePredictor } from "./MovePredictor";
+import {
+  EVENTS, Player, MoveAckPayload, BlockEntry,
+  PlayerProfile, PlayerUpdatedPayload, SnapshotPayload, JoinRoomPayload,
+  WORLD_W, WORLD_H, PLAYER_SPEED, EMIT_INTERVAL_MS, ISO_TILE, isWalkable,
+} from "@mping/shared";
 
 // ── WORLD CONSTANTS ────────────────────────────────────────────
-const WORLD_W       = 2400;
-const WORLD_H       = 1800;
-const PLAYER_SPEED  = 220;
-const EMIT_INTERVAL_MS = 50;
+// World size, speed and emit rate live in @mping/shared so the
+// server validates moves against the same numbers we walk with.
 const PROXIMITY_RADIUS = 150;
 
+// Prediction errors up to this size glide out over CORRECTION_SMOOTH_MS;
+// bigger ones (walked into a wall the server knows about) snap.
+const CORRECTION_SNAP_DISTANCE = PLAYER_SPEED / 4;
+const CORRECTION_SMOOTH_MS     = 100;
+
 // Isometric tile unit — half-width of one tile
-const T = 40;
+const T = ISO_TILE;
 
 // Colour palette — low-poly day island
 const C = {
@@ -54,10 +64,18 @@ interface OtherPlayerSprites {
   rightArm:  Phaser.GameObjects.Graphics;
   walkCycle: number;
   color:     number;
+  name:      string;
+  reconnecting: boolean;
+  buffer:    InterpolationBuffer;  // where to draw them — see update()
 }
 
+/** What JOIN_ROOM carries besides the room and profile. */
+export type JoinOptions = Pick<JoinRoomPayload, "create" | "password" | "invite">;
+
 interface SceneInitData {
   roomId: string;
+  profile: PlayerProfile;
+  joinOptions: JoinOptions;
   onNearbyChange: (playerId: string | null) => void;
   onTalkClicked:  (targetId: string) => void;
 }
@@ -80,8 +98,17 @@ export class WorldScene extends Phaser.Scene {
   private talkKey!: Phaser.Input.Keyboard.Key;
 
   private otherPlayers   = new Map<string, OtherPlayerSprites>();
+  // Players we've blocked with "hide their avatar": kept, but not drawn
+  private hiddenIds      = new Set<string>();
   private lastEmitTime   = 0;
+  private lastSnapshotSeq = 0;
+  private predictor       = new MovePredictor();
+  // Prediction error still to be applied to myPlayer, a bit per frame
+  private correction      = { x: 0, y: 0 };
+  private serverClock     = new ServerClock();
   private roomId         = "";
+  private profile: PlayerProfile = { name: "" };
+  private joinOptions: JoinOptions = {};
 
   private onNearbyChange: (id: string | null) => void = () => {};
   private onTalkClicked:  (id: string) => void        = () => {};
@@ -100,50 +127,106 @@ export class WorldScene extends Phaser.Scene {
 
   // ── SOCKET HANDLERS ────────────────────────────────────────
   private onSelfPlayer = (player: Player) => {
+    this.predictor.reset(player.x, player.y);
+    this.correction = { x: 0, y: 0 };
     this.myPlayer.setPosition(player.x, player.y);
     const body = this.myPlayer.body as Phaser.Physics.Arcade.Body;
     if (body) body.reset(player.x, player.y);
   };
-  private onRoomState    = (players: Player[]) => players.forEach(p => this.spawnOtherPlayer(p));
-  private onPlayerJoined = (player: Player)    => this.spawnOtherPlayer(player);
-  private onPlayerMoved  = (data: { id: string; x: number; y: number }) => {
-    const sprites = this.otherPlayers.get(data.id);
-    if (!sprites) return;
-    
-    // Cancel any existing movement tween to prevent conflicts
-    this.tweens.killTweensOf(sprites.body);
-    this.tweens.killTweensOf(sprites.nameLabel);
-    
-    this.tweens.add({
-      targets: sprites.body, x: data.x, y: data.y,
-      duration: EMIT_INTERVAL_MS * 1.5, ease: "Linear",
-      onUpdate: (tween) => {
-        sprites.body.setDepth(Math.round(sprites.body.y));
-        sprites.nameLabel.setDepth(Math.round(sprites.body.y) + 1);
-        // Use tween progress (0 to 1) for smooth animation regardless of frame rate
-        const progress = tween.progress;
-        sprites.walkCycle = progress * Math.PI * 4; // 2 full walking cycles per move
-        this.drawLegs(sprites.leftLeg, sprites.rightLeg, sprites.leftArm, sprites.rightArm, sprites.walkCycle, sprites.color);
-      },
-      onComplete: () => {
-        sprites.walkCycle = 0;
-        this.drawLegs(sprites.leftLeg, sprites.rightLeg, sprites.leftArm, sprites.rightArm, 0, sprites.color);
-      },
-    });
-    this.tweens.add({
-      targets: sprites.nameLabel, x: data.x, y: data.y - 62,
-      duration: EMIT_INTERVAL_MS * 1.5, ease: "Linear",
-    });
+  // Server processed our inputs up to some seq — check our prediction.
+  // A correction (refused or clamped move) is just an early ack.
+  private onMoveAck = (ack: MoveAckPayload) => {
+    const { dx, dy } = this.predictor.reconcile(ack);
+    const error = Math.hypot(dx, dy);
+    if (error < 0.5) return;
+
+    // Any click-to-walk path was planned from the wrong spot
+    this.tweens.killTweensOf(this.myPlayer);
+
+    if (error > CORRECTION_SNAP_DISTANCE) {
+      const x = this.myPlayer.x + this.correction.x + dx;
+      const y = this.myPlayer.y + this.correction.y + dy;
+      this.correction = { x: 0, y: 0 };
+      this.myPlayer.setPosition(x, y);
+      const body = this.myPlayer.body as Phaser.Physics.Arcade.Body;
+      if (body) body.reset(x, y);
+      return;
+    }
+    // Small enough to glide out over the next few frames (see update())
+    this.correction.x += dx;
+    this.correction.y += dy;
+  };
+  private onRoomState    = (players: Player[]) => {
+    // Fresh snapshot — and possibly a restarted server whose tick
+    // numbers and clock start over
+    this.lastSnapshotSeq = 0;
+    this.serverClock.reset();
+    // After a reconnect we may already have avatars on screen. Drop the
+    // ones that left while we were away and snap the rest to the snapshot.
+    const ids = new Set(players.map(p => p.id));
+    for (const id of [...this.otherPlayers.keys()]) {
+      if (!ids.has(id)) this.onPlayerLeft(id);
+    }
+    for (const p of players) {
+      const s = this.otherPlayers.get(p.id);
+      if (!s) { this.spawnOtherPlayer(p); continue; }
+      s.buffer.reset(p.x, p.y);
+      s.body.setPosition(p.x, p.y);
+      s.nameLabel.setPosition(p.x, p.y - 62);
+      s.name = p.name;
+      this.setReconnecting(p.id, !!p.reconnecting);
+    }
+  };
+  // The server only tells us about players within VIEW_DISTANCE.
+  // Avatars come and go as players walk in and out of view; a player
+  // out of view is still in the room (see App's roster).
+  private onPlayerEnteredView = (player: Player) => this.spawnOtherPlayer(player);
+  // One snapshot per server tick, holding everyone in view who moved.
+  // Socket.IO keeps order, but after a reconnect a late packet from the
+  // old socket could still land — drop anything older than we've seen.
+  // Equal is fine: with several server nodes, each sends its own
+  // players' snapshot for the same tick.
+  // Positions only go into each avatar's buffer here; update() draws
+  // them a little in the past (see InterpolationBuffer).
+  private onPlayerMoved  = (snapshot: SnapshotPayload) => {
+    if (snapshot.seq < this.lastSnapshotSeq) return;
+    this.lastSnapshotSeq = snapshot.seq;
+    this.serverClock.observe(snapshot.serverTime);
+    for (const p of snapshot.players) {
+      this.otherPlayers.get(p.id)?.buffer.push(snapshot.serverTime, p.x, p.y);
+    }
   };
+  // Left the room, or just walked out of view — either way, despawn
   private onPlayerLeft = (playerId: string) => {
     this.destroyOtherPlayer(playerId);
     if (this.currentNearbyId === playerId) this.setNearby(null);
   };
+  private onPlayerUpdated = (data: PlayerUpdatedPayload) => {
+    const s = this.otherPlayers.get(data.id);
+    if (!s) return;
+    s.name = data.name;
+    this.refreshLabel(s);
+    if (this.currentNearbyId === data.id) this.setNearby(data.id);
+  };
+  // Our block list, now and after every change (see blocks.ts). A
+  // hidden avatar stays in sync, just invisible — and out of reach of
+  // the Talk prompt — so unhiding it is instant.
+  private onBlockList = (blocks: BlockEntry[]) => {
+    this.hiddenIds = new Set(blocks.filter(b => b.hideTheirAvatar).map(b => b.playerId));
+    for (const [id, s] of this.otherPlayers) this.applyHidden(id, s);
+  };
+  private onPlayerReconnecting = (playerId: string) => this.setReconnecting(playerId, true);
+  private onPlayerReconnected  = (playerId: string) => this.setReconnecting(playerId, false);
+  // Socket.IO reconnected after a drop — the server kept our player
+  // (session token), so rejoin the same room to get a fresh snapshot.
+  private onReconnect = () => this.joinRoom();
 
   constructor() { super({ key: "WorldScene" }); }
 
   init(data: SceneInitData) {
     this.roomId         = data.roomId;
+    this.profile        = data.profile;
+    this.joinOptions    = data.joinOptions;
     this.onNearbyChange = data.onNearbyChange;
     this.onTalkClicked  = data.onTalkClicked;
   }
@@ -263,8 +346,17 @@ export class WorldScene extends Phaser.Scene {
     };
     this.talkKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.T);
 
+    // Typing in a HUD form field (profile editor, chat…) must neither
+    // walk the avatar nor have Phaser swallow the keystrokes.
+    document.addEventListener("focusin",  this.onFocusIn);
+    document.addEventListener("focusout", this.onFocusOut);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      document.removeEventListener("focusin",  this.onFocusIn);
+      document.removeEventListener("focusout", this.onFocusOut);
+    });
+
     this.setupSocketListeners();
-    socket.emit(EVENTS.JOIN_ROOM, this.roomId);
+    this.joinRoom();
 
     // Click-to-move
     this.input.on("pointerdown", (p: Phaser.Input.Pointer) => this.tweenPlayerTo(p.worldX, p.worldY));
@@ -284,6 +376,12 @@ export class WorldScene extends Phaser.Scene {
     else if (down)  body.setVelocityY(PLAYER_SPEED);
     if ((left || right) && (up || down)) body.velocity.normalize().scale(PLAYER_SPEED);
 
+    // Don't step into the lake or off the island — the server would only
+    // snap us back. Checking each axis separately lets us slide along shores.
+    const dt = delta / 1000;
+    if (!isWalkable(this.myPlayer.x + body.velocity.x * dt, this.myPlayer.y)) body.setVelocityX(0);
+    if (!isWalkable(this.myPlayer.x, this.myPlayer.y + body.velocity.y * dt)) body.setVelocityY(0);
+
     // Walk animation (delta-based for consistent speed across all frame rates)
     const moving = body.velocity.length() > 0;
     if (moving) {
@@ -301,11 +399,30 @@ export class WorldScene extends Phaser.Scene {
       myLabel.setDepth(Math.round(this.myPlayer.y) + 1);
     }
 
+    // Glide out any prediction error instead of teleporting
+    if (this.correction.x !== 0 || this.correction.y !== 0) {
+      const f = Math.min(1, delta / CORRECTION_SMOOTH_MS);
+      const stepX = this.correction.x * f;
+      const stepY = this.correction.y * f;
+      this.myPlayer.x += stepX;
+      this.myPlayer.y += stepY;
+      this.correction.x -= stepX;
+      this.correction.y -= stepY;
+      if (Math.hypot(this.correction.x, this.correction.y) < 0.1) this.correction = { x: 0, y: 0 };
+    }
+
+    // Inputs describe where we'd be with the correction fully applied —
+    // the glide itself is cosmetic and must not be sent as movement
     if (time - this.lastEmitTime > EMIT_INTERVAL_MS) {
-      socket.emit(EVENTS.PLAYER_MOVE, { x: Math.round(this.myPlayer.x), y: Math.round(this.myPlayer.y) } as MovePayload);
+      socket.emit(EVENTS.PLAYER_MOVE, this.predictor.record(
+        this.myPlayer.x + this.correction.x,
+        this.myPlayer.y + this.correction.y,
+      ));
       this.lastEmitTime = time;
     }
 
+    this.updateOtherPlayers(delta);
+
     // Ambient animations
     this.fountainT += delta * 0.003;
     this.ambientT  += delta * 0.001;
@@ -911,6 +1028,7 @@ export class WorldScene extends Phaser.Scene {
     let closestId: string | null = null;
     let closestDist = PROXIMITY_RADIUS + 1;
     for (const [id, s] of this.otherPlayers) {
+      if (this.hiddenIds.has(id)) continue;
       const dx = this.myPlayer.x - s.body.x;
       const dy = this.myPlayer.y - s.body.y;
       const d = Math.sqrt(dx * dx + dy * dy);
@@ -933,6 +1051,8 @@ export class WorldScene extends Phaser.Scene {
 
   private setNearby(id: string | null) {
     this.currentNearbyId = id;
+    const name = id ? this.otherPlayers.get(id)?.name : undefined;
+    this.talkHint.setText(name ? `[ T ]  Talk to ${name}` : "[ T ]  Talk");
     this.proximityRing.setVisible(id !== null);
     this.talkHint.setVisible(id !== null);
     this.onNearbyChange(id);
@@ -944,21 +1064,45 @@ export class WorldScene extends Phaser.Scene {
 
   private setupSocketListeners() {
     socket.off(EVENTS.SELF_PLAYER,   this.onSelfPlayer);
+    socket.off(EVENTS.POSITION_CORRECTION, this.onMoveAck);
+    socket.off(EVENTS.MOVE_ACK,    this.onMoveAck);
     socket.off(EVENTS.ROOM_STATE,    this.onRoomState);
-    socket.off(EVENTS.PLAYER_JOINED, this.onPlayerJoined);
+    socket.off(EVENTS.PLAYER_ENTERED_VIEW, this.onPlayerEnteredView);
+    socket.off(EVENTS.PLAYER_LEFT_VIEW,    this.onPlayerLeft);
     socket.off(EVENTS.PLAYER_MOVED,  this.onPlayerMoved);
     socket.off(EVENTS.PLAYER_LEFT,   this.onPlayerLeft);
+    socket.off(EVENTS.PLAYER_RECONNECTING, this.onPlayerReconnecting);
+    socket.off(EVENTS.PLAYER_RECONNECTED,  this.onPlayerReconnected);
+    socket.off(EVENTS.PLAYER_UPDATED, this.onPlayerUpdated);
+    socket.off("connect",            this.onReconnect);
     socket.on(EVENTS.SELF_PLAYER,    this.onSelfPlayer);
+    socket.on(EVENTS.POSITION_CORRECTION, this.onMoveAck);
+    socket.on(EVENTS.MOVE_ACK,     this.onMoveAck);
     socket.on(EVENTS.ROOM_STATE,     this.onRoomState);
-    socket.on(EVENTS.PLAYER_JOINED,  this.onPlayerJoined);
+    socket.on(EVENTS.PLAYER_ENTERED_VIEW, this.onPlayerEnteredView);
+    socket.on(EVENTS.PLAYER_LEFT_VIEW,    this.onPlayerLeft);
     socket.on(EVENTS.PLAYER_MOVED,   this.onPlayerMoved);
     socket.on(EVENTS.PLAYER_LEFT,    this.onPlayerLeft);
+    socket.on(EVENTS.PLAYER_RECONNECTING, this.onPlayerReconnecting);
+    socket.on(EVENTS.PLAYER_RECONNECTED,  this.onPlayerReconnected);
+    socket.on(EVENTS.PLAYER_UPDATED, this.onPlayerUpdated);
+    socket.on("connect",             this.onReconnect);
+    this.onBlockList(getBlocks());
+    const offBlocks = onBlocksChanged(this.onBlockList);
     this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
       socket.off(EVENTS.SELF_PLAYER,   this.onSelfPlayer);
+      socket.off(EVENTS.POSITION_CORRECTION, this.onMoveAck);
+      socket.off(EVENTS.MOVE_ACK,    this.onMoveAck);
       socket.off(EVENTS.ROOM_STATE,    this.onRoomState);
-      socket.off(EVENTS.PLAYER_JOINED, this.onPlayerJoined);
+      socket.off(EVENTS.PLAYER_ENTERED_VIEW, this.onPlayerEnteredView);
+      socket.off(EVENTS.PLAYER_LEFT_VIEW,    this.onPlayerLeft);
       socket.off(EVENTS.PLAYER_MOVED,  this.onPlayerMoved);
       socket.off(EVENTS.PLAYER_LEFT,   this.onPlayerLeft);
+      socket.off(EVENTS.PLAYER_RECONNECTING, this.onPlayerReconnecting);
+      socket.off(EVENTS.PLAYER_RECONNECTED,  this.onPlayerReconnected);
+      socket.off(EVENTS.PLAYER_UPDATED, this.onPlayerUpdated);
+      socket.off("connect",            this.onReconnect);
+      offBlocks();
       this.onNearbyChange(null);
     });
   }
@@ -968,7 +1112,7 @@ export class WorldScene extends Phaser.Scene {
     const colorInt = parseInt(player.color.replace("#", ""), 16);
     const cd = this.createCharacter(player.x, player.y, colorInt);
     cd.container.setDepth(Math.round(player.y));
-    const nameLabel = this.add.text(player.x, player.y - 62, player.id.slice(0, 6), {
+    const nameLabel = this.add.text(player.x, player.y - 62, player.name, {
       fontFamily: "'Exo 2', sans-serif",
       fontSize: "11px", color: "#ffffff", stroke: "#000000", strokeThickness: 3,
     }).setOrigin(0.5, 1).setDepth(Math.round(player.y) + 1);
@@ -977,7 +1121,76 @@ export class WorldScene extends Phaser.Scene {
       leftLeg: cd.leftLeg, rightLeg: cd.rightLeg,
       leftArm: cd.leftArm, rightArm: cd.rightArm,
       walkCycle: 0, color: colorInt,
+      name: player.name, reconnecting: false,
+      buffer: new InterpolationBuffer(player.x, player.y),
     });
+    if (player.reconnecting) this.setReconnecting(player.id, true);
+    this.applyHidden(player.id, this.otherPlayers.get(player.id)!);
+  }
+
+  private applyHidden(playerId: string, s: OtherPlayerSprites) {
+    const visible = !this.hiddenIds.has(playerId);
+    s.body.setVisible(visible);
+    s.nameLabel.setVisible(visible);
+  }
+
+  /** Fade a player whose connection dropped; the server is holding them. */
+  private setReconnecting(playerId: string, reconnecting: boolean) {
+    const s = this.otherPlayers.get(playerId);
+    if (!s) return;
+    s.reconnecting = reconnecting;
+    s.body.setAlpha(reconnecting ? 0.4 : 1);
+    this.refreshLabel(s);
+  }
+
+  private refreshLabel(s: OtherPlayerSprites) {
+    s.nameLabel.setText(s.reconnecting ? `${s.name} · reconnecting…` : s.name);
+  }
+
+  /**
+   * (Re)join our room. On a rejoin the server keeps our existing profile,
+   * ignores `create` once the room exists, and doesn't check credentials.
+   */
+  private joinRoom() {
+    socket.emit(EVENTS.JOIN_ROOM, { roomId: this.roomId, ...this.profile, ...this.joinOptions });
+  }
+
+  private onFocusIn = (e: FocusEvent) => {
+    if (!isFormField(e.target)) return;
+    const kb = this.input.keyboard!;
+    kb.enabled = false;
+    kb.disableGlobalCapture();
+    kb.resetKeys();
+  };
+
+  private onFocusOut = (e: FocusEvent) => {
+    if (!isFormField(e.target)) return;
+    const kb = this.input.keyboard!;
+    kb.enabled = true;
+    kb.enableGlobalCapture();
+  };
+
+  /** Draw remote avatars from their snapshot buffers (see InterpolationBuffer). */
+  private updateOtherPlayers(delta: number) {
+    const renderTime = this.serverClock.now() - INTERP_DELAY_MS;
+    for (const s of this.otherPlayers.values()) {
+      const state = s.buffer.sample(renderTime);
+      if (!state) continue;
+      s.body.setPosition(state.x, state.y);
+      s.nameLabel.setPosition(state.x, state.y - 62);
+      s.body.setDepth(Math.round(state.y));
+      s.nameLabel.setDepth(Math.round(state.y) + 1);
+
+      // Legs follow how fast they're really moving — same rate as ours
+      // at full speed, slower when they are, still when they stop
+      if (state.speed > 1) {
+        s.walkCycle += delta * 0.01 * (state.speed / PLAYER_SPEED);
+        this.drawLegs(s.leftLeg, s.rightLeg, s.leftArm, s.rightArm, s.walkCycle, s.color);
+      } else if (s.walkCycle !== 0) {
+        s.walkCycle = 0;
+        this.drawLegs(s.leftLeg, s.rightLeg, s.leftArm, s.rightArm, 0, s.color);
+      }
+    }
   }
 
   private destroyOtherPlayer(playerId: string) {
@@ -988,10 +1201,23 @@ export class WorldScene extends Phaser.Scene {
     this.otherPlayers.delete(playerId);
   }
 
+  /**
+   * Click-to-move. Walks (not teleports) at PLAYER_SPEED in a straight
+   * line, so the server's speed check accepts every step. Clicks whose
+   * path crosses the lake or leaves the island are ignored.
+   */
   private tweenPlayerTo(x: number, y: number) {
+    const fromX = this.myPlayer.x, fromY = this.myPlayer.y;
+    const dist  = Math.hypot(x - fromX, y - fromY);
+    const steps = Math.ceil(dist / (T / 2));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      if (!isWalkable(fromX + (x - fromX) * t, fromY + (y - fromY) * t)) return;
+    }
     const body = this.myPlayer.body as Phaser.Physics.Arcade.Body;
     body.setVelocity(0);
-    this.tweens.add({ targets: this.myPlayer, x, y, duration: 380, ease: "Power2" });
+    this.tweens.killTweensOf(this.myPlayer);
+    this.tweens.add({ targets: this.myPlayer, x, y, duration: (dist / PLAYER_SPEED) * 1000, ease: "Linear" });
   }
 
   // ══════════════════════════════════════════════════════════════
@@ -1034,3 +1260,9 @@ export class WorldScene extends Phaser.Scene {
     );
   }
 }
+
+function isFormField(el: EventTarget | null): boolean {
+  return el instanceof HTMLInputElement
+    || el instanceof HTMLTextAreaElement
+    || el instanceof HTMLSelectElement;
+}
@@ -0,0 +1,33 @@
+// ─────────────────────────────────────────────────────────────────
+//  INVITE LINKS
+//
+//  An invite travels as a link to the app: ?room=<roomId>&invite=<token>.
+//  The lobby reads one from the address bar, or from the room field if
+//  someone pastes it there, and sends the token with JOIN_ROOM.
+// ─────────────────────────────────────────────────────────────────
+
+export interface InviteLinkParams {
+  roomId: string;
+  token: string;
+}
+
+/** The shareable link for an invite. */
+export function inviteUrl({ roomId, token }: InviteLinkParams): string {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set("room", roomId);
+  url.searchParams.set("invite", token);
+  return url.toString();
+}
+
+/** The room and token in an invite link, or null if `text` isn't one. */
+export function readInviteLink(text: string): InviteLinkParams | null {
+  let params: URLSearchParams;
+  try {
+    params = new URL(text.trim(), window.location.href).searchParams;
+  } catch {
+    return null;
+  }
+  const roomId = params.get("room");
+  const token = params.get("invite");
+  return roomId && token ? { roomId, token } : null;
+}
@@ -1,4 +1,5 @@
 import { io, Socket } from "socket.io-client";
+import { EVENTS, ServerToClientEvents, ClientToServerEvents } from "@mping/shared";
 
 // ─────────────────────────────────────────────────────────────────
 //  SOCKET SINGLETON
@@ -13,11 +14,83 @@ import { io, Socket } from "socket.io-client";
 // ─────────────────────────────────────────────────────────────────
 // In production, connect to VITE_SERVER_URL (backend).
 // In dev, Vite proxies /socket.io → http://localhost:3001
-const SERVER_URL = import.meta.env.VITE_SERVER_URL || window.location.origin;
+export const SERVER_URL = import.meta.env.VITE_SERVER_URL || window.location.origin;
 
-export const socket: Socket = io(SERVER_URL, {
+// ─────────────────────────────────────────────────────────────────
+//  SESSION TOKEN
+//
+//  The server issues a token on connect (EVENTS.SESSION). We send it
+//  back in the handshake on every (re)connect so a dropped connection
+//  resumes the same player instead of spawning a new one.
+//
+//  WHY sessionStorage and not localStorage?
+//  localStorage is shared by every tab — two tabs would fight over the
+//  same player. sessionStorage is per-tab but survives a reload.
+// ─────────────────────────────────────────────────────────────────
+const SESSION_KEY = "mping:session";
+
+// ─────────────────────────────────────────────────────────────────
+//  SIGN-IN TOKEN
+//
+//  A site embedding mping can sign its users in: hand us a signed
+//  token (a JWT the server is configured to verify) with
+//  setAuthToken(), or link here with it in the address as
+//  #auth=<token>, and every handshake carries it as `auth.token`.
+//  Without one we connect as a guest, if the server allows guests.
+//  If it refuses, "connect_error" carries an AuthErrorData.
+//
+//  WHY the fragment and not ?auth=?
+//  The fragment never leaves the browser, so the token stays out of
+//  server and proxy logs. We store it and tidy the address bar, like
+//  an invite link.
+//
+//  WHY localStorage this time?
+//  A sign-in is the person, not the tab — every tab should use it.
+// ─────────────────────────────────────────────────────────────────
+const AUTH_KEY = "mping:auth";
+
+/** Sign in as the user `token` names (null to go back to being a guest). Applies from the next connect. */
+export function setAuthToken(token: string | null) {
+  if (token) localStorage.setItem(AUTH_KEY, token);
+  else localStorage.removeItem(AUTH_KEY);
+}
+
+const linkedToken = new URLSearchParams(window.location.hash.slice(1)).get("auth");
+if (linkedToken) {
+  setAuthToken(linkedToken);
+  window.history.replaceState(null, "", window.location.pathname + window.location.search);
+}
+
+/**
+ * The `name` in the stored sign-in token, to fill in the lobby. Not
+ * checked here — the server verifies the token on connect.
+ */
+export function signedInName(): string | null {
+  const payload = localStorage.getItem(AUTH_KEY)?.split(".")[1];
+  if (!payload) return null;
+  try {
+    const bytes = Uint8Array.from(atob(payload.replace(/-/g, "+").replace(/_/g, "/")), c => c.charCodeAt(0));
+    const { name } = JSON.parse(new TextDecoder().decode(bytes));
+    return typeof name === "string" ? name : null;
+  } catch {
+    return null;
+  }
+}
+
+// Typed with the shared event maps — emitting or listening for the
+// wrong event name or payload shape is a compile error.
+export const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io(SERVER_URL, {
   autoConnect: false,
   // Start with polling (goes through Vite's HTTP proxy reliably), then
   // upgrade to WebSocket once the connection is established.
   transports: ["polling", "websocket"],
+  // A function (not an object) so the latest tokens are read on every reconnect
+  auth: (cb) => cb({
+    sessionToken: sessionStorage.getItem(SESSION_KEY),
+    token: localStorage.getItem(AUTH_KEY) ?? undefined,
+  }),
+});
+
+socket.on(EVENTS.SESSION, (session) => {
+  sessionStorage.setItem(SESSION_KEY, session.token);
 });
@@ -1,5 +1,6 @@
 import { socket } from "../socket";
-import { EVENTS, WebRtcSdpPayload, WebRtcIcePayload } from "@mping/shared";
+import { getIceServers } from "./iceServers";
+import { EVENTS, WebRtcSdpPayload, WebRtcIcePayload, SignalRejectedPayload } from "@mping/shared";
 
 // ─────────────────────────────────────────────────────────────────
 //  VOICE CHAT  —  WebRTC peer-to-peer audio manager
@@ -15,16 +16,11 @@ import { EVENTS, WebRtcSdpPayload, WebRtcIcePayload } from "@mping/shared";
 //  Once those are exchanged, the browsers connect directly.
 //
 //  STUN servers help browsers behind NAT discover their public IP.
-//  We use Google's free public STUN servers (no account needed).
-//  For strict corporate/symmetric NAT, a TURN server would be needed
-//  (that's a paid service needed only for <5% of users in production).
+//  For strict corporate/symmetric NAT, a TURN server relays the audio
+//  instead. The server decides which of each to use and hands out
+//  short-lived TURN credentials — see iceServers.ts.
 // ─────────────────────────────────────────────────────────────────
 
-const ICE_SERVERS: RTCIceServer[] = [
-  { urls: "stun:stun.l.google.com:19302" },
-  { urls: "stun:stun1.l.google.com:19302" },
-];
-
 export type CallState = "idle" | "calling" | "receiving" | "connected";
 
 export interface VoiceChatCallbacks {
@@ -66,7 +62,7 @@ class VoiceChatManager {
 
     try {
       await this.setupLocalStream();
-      this.createPeerConnection();
+      await this.createPeerConnection();
 
       const offer = await this.pc!.createOffer();
       await this.pc!.setLocalDescription(offer);
@@ -87,7 +83,7 @@ class VoiceChatManager {
 
     try {
       await this.setupLocalStream();
-      this.createPeerConnection();
+      await this.createPeerConnection();
 
       await this.pc!.setRemoteDescription(new RTCSessionDescription(offerSdp));
       this.remoteDescSet = true;
@@ -113,6 +109,14 @@ class VoiceChatManager {
     this.cleanup();
   }
 
+  /**
+   * End the current call locally without telling the peer — for when
+   * the server has already ended it (e.g. our connection dropped).
+   */
+  dropCall() {
+    if (this.state !== "idle") this.cleanup();
+  }
+
   /** Mute or unmute the local microphone without ending the call. */
   setMuted(muted: boolean) {
     this.localStream?.getAudioTracks().forEach((t) => {
@@ -143,8 +147,9 @@ class VoiceChatManager {
     });
   }
 
-  private createPeerConnection() {
-    this.pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+  private async createPeerConnection() {
+    const iceServers = await getIceServers();
+    this.pc = new RTCPeerConnection({ iceServers });
     this.remoteDescSet = false;
     this.iceBuffer = [];
 
@@ -220,6 +225,14 @@ class VoiceChatManager {
     socket.on(EVENTS.CALL_END, () => {
       this.cleanup();
     });
+
+    // The server refused to forward something for this call — the peer
+    // left the room, or was out of range when we rang. Without this the
+    // UI would sit on "Calling…" for a call the peer never heard about.
+    socket.on(EVENTS.SIGNAL_REJECTED, (rejection: SignalRejectedPayload) => {
+      if (rejection.to !== this.peerId || this.state === "idle") return;
+      this.handleError(rejection.message);
+    });
   }
 
   private async flushIceBuffer() {
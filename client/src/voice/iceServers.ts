@@ -0,0 +1,71 @@
+import { socket } from "../socket";
+import { EVENTS, IceConfigPayload } from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  ICE SERVERS  —  which STUN/TURN servers a call should use
+//
+//  The server hands these out (ICE_CONFIG_REQUEST → ICE_CONFIG), with
+//  TURN credentials that expire. We keep the last answer and ask again
+//  REFRESH_MARGIN_MS before it runs out, so a call starting later
+//  doesn't wait on the round trip or use credentials TURN will refuse.
+//
+//  WHY a fallback?
+//  If the server doesn't answer in time, public STUN still connects
+//  most calls. Better that than no call at all.
+// ─────────────────────────────────────────────────────────────────
+
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"] },
+];
+
+const REFRESH_MARGIN_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 5_000;
+
+let cached: IceConfigPayload | null = null;
+let pending: Promise<RTCIceServer[]> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+const isFresh = (c: IceConfigPayload) => c.expiresAt === null || c.expiresAt - REFRESH_MARGIN_MS > Date.now();
+
+function store(config: IceConfigPayload) {
+  cached = config;
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  if (config.expiresAt !== null) {
+    const delay = Math.max(0, config.expiresAt - REFRESH_MARGIN_MS - Date.now());
+    refreshTimer = setTimeout(() => {
+      refreshTimer = null;
+      if (socket.connected) void request();
+    }, delay);
+  }
+}
+
+function request(): Promise<RTCIceServer[]> {
+  pending ??= new Promise<RTCIceServer[]>((resolve) => {
+    const done = (servers: RTCIceServer[]) => {
+      clearTimeout(timer);
+      socket.off(EVENTS.ICE_CONFIG, onConfig);
+      pending = null;
+      resolve(servers);
+    };
+    const onConfig = (config: IceConfigPayload) => done(config.iceServers);
+    const timer = setTimeout(() => done(cached?.iceServers ?? FALLBACK_ICE_SERVERS), REQUEST_TIMEOUT_MS);
+    socket.on(EVENTS.ICE_CONFIG, onConfig);
+    socket.emit(EVENTS.ICE_CONFIG_REQUEST);
+  });
+  return pending;
+}
+
+// Every answer is cached, whoever asked for it
+socket.on(EVENTS.ICE_CONFIG, store);
+
+// Fetch ahead of the first call, so it can start straight away
+socket.on("connect", () => {
+  if (!cached || !isFresh(cached)) void request();
+});
+
+/** The ICE servers for a new RTCPeerConnection — cached, or fetched if stale. */
+export function getIceServers(): Promise<RTCIceServer[]> {
+  if (cached && isFresh(cached)) return Promise.resolve(cached.iceServers);
+  return request();
+}
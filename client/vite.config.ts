@@ -32,6 +32,11 @@ export default defineConfig({
         ws: true,
         changeOrigin: true,
       },
+      // Room directory REST API (lobby room browser)
+      "/rooms": {
+        target: "http://localhost:3001",
+        changeOrigin: true,
+      },
     },
   },
 });
@@ -0,0 +1,239 @@
+import { io, Socket } from "socket.io-client";
+import {
+  EVENTS, ServerToClientEvents, ClientToServerEvents, MoveAckPayload,
+  PLAYER_SPEED, EMIT_INTERVAL_MS, WORLD_W, WORLD_H, isWalkable,
+} from "@mping/shared";
+import { LoadStats, LatencyTracker, countInto } from "./stats";
+
+// ─────────────────────────────────────────────────────────────────
+//  BOT
+//
+//  A headless player: joins a room and walks around the way a person
+//  at the keyboard does, sending PLAYER_MOVE every EMIT_INTERVAL_MS
+//  like the real client — standing still included.
+//
+//  How it walks:
+//    • mostly short strolls to a spot nearby, then a pause;
+//    • now and then a long walk across the island;
+//    • never into the lake or off the edge (the client doesn't either).
+//  The position is tracked like the client's MovePredictor: each step
+//  is rounded before it's sent and acks replay the unacked steps, so
+//  the bot always knows where the server has it — which is what lets
+//  LatencyTracker spot its moves in other bots' snapshots.
+//
+//  With calls on, a bot rings someone in view every so often, and
+//  answers calls itself: half accepted, half declined. Accepted calls
+//  are hung up by the caller after a few seconds. No audio — only the
+//  signaling the server handles.
+// ─────────────────────────────────────────────────────────────────
+
+export interface BotOptions {
+  url: string;
+  roomId: string;
+  name: string;
+  token?: string;          // sign-in token; a guest without one
+  callEveryMs: number;     // 0 = never ring anyone
+}
+
+export interface Bot {
+  stop(): void;
+}
+
+type BotSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const SHORT_WALK = 250;                   // px — the usual stroll
+const LONG_WALK_CHANCE = 0.15;
+const PAUSE_MS = [500, 4000];             // idle between walks
+const CALL_LENGTH_MS = [2000, 8000];
+const MAX_STEP_SEC = 0.25;                // a stalled timer doesn't become a teleport
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const between = ([min, max]: number[]) => min + Math.random() * (max - min);
+
+export function startBot(options: BotOptions, stats: LoadStats, latency: LatencyTracker): Bot {
+  const socket: BotSocket = io(options.url, {
+    transports: ["websocket"],
+    forceNew: true,
+    reconnection: false,
+    auth: options.token ? { token: options.token } : {},
+  });
+
+  let playerId: string | null = null;
+  let joined = false;
+  let stopped = false;
+
+  // Where the server has us once every sent step is applied
+  let x = 0;
+  let y = 0;
+  let seq = 0;
+  let pending: { seq: number; dx: number; dy: number }[] = [];
+
+  let waypoint: { x: number; y: number } | null = null;
+  let pausedUntil = 0;
+  let lastStepAt = 0;
+
+  const inView = new Set<string>();
+  let callPeer: string | null = null;
+
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  const later = (ms: number, fn: () => void) => timers.push(setTimeout(fn, ms));
+
+  // ── Connection ───────────────────────────────────────────────
+  socket.on("connect", () => {
+    stats.connected++;
+    socket.emit(EVENTS.JOIN_ROOM, { roomId: options.roomId, name: options.name });
+  });
+  socket.on("connect_error", () => {
+    stats.connectErrors++;
+  });
+  socket.on("disconnect", () => {
+    if (!stopped) stats.dropped++;
+    stop();
+  });
+  socket.on(EVENTS.SESSION, (session) => { playerId = session.playerId; });
+  socket.on(EVENTS.JOIN_REJECTED, (rejection) => {
+    countInto(stats.joinRejected, rejection.reason);
+    stop();
+  });
+
+  socket.onAny((event: string) => countInto(stats.received, event));
+
+  socket.on(EVENTS.SELF_PLAYER, (player) => {
+    x = player.x;
+    y = player.y;
+    pending = [];
+    if (joined) return;
+    joined = true;
+    stats.joined++;
+    lastStepAt = Date.now();
+    // Not all in lockstep — real clients' timers aren't either
+    later(Math.random() * EMIT_INTERVAL_MS, () => {
+      timers.push(setInterval(step, EMIT_INTERVAL_MS));
+    });
+    if (options.callEveryMs > 0) scheduleCall();
+  });
+
+  // ── Acks: replay unacked steps on the server's answer ────────
+  const reconcile = (ack: MoveAckPayload) => {
+    pending = pending.filter(p => p.seq > ack.seq);
+    x = pending.reduce((sum, p) => sum + p.dx, ack.x);
+    y = pending.reduce((sum, p) => sum + p.dy, ack.y);
+  };
+  socket.on(EVENTS.MOVE_ACK, reconcile);
+  socket.on(EVENTS.POSITION_CORRECTION, (correction) => {
+    stats.corrections++;
+    waypoint = null;
+    reconcile(correction);
+  });
+
+  // ── What we see ──────────────────────────────────────────────
+  socket.on(EVENTS.ROOM_STATE, (players) => {
+    inView.clear();
+    for (const p of players) inView.add(p.id);
+  });
+  socket.on(EVENTS.PLAYER_ENTERED_VIEW, (p) => inView.add(p.id));
+  socket.on(EVENTS.PLAYER_LEFT_VIEW, (id) => inView.delete(id));
+  socket.on(EVENTS.PLAYER_LEFT, (id) => inView.delete(id));
+  socket.on(EVENTS.PLAYER_MOVED, (snapshot) => {
+    const now = Date.now();
+    stats.positionsReceived += snapshot.players.length;
+    if (!playerId) return;
+    for (const p of snapshot.players) latency.seen(playerId, p.id, p.x, p.y, now);
+  });
+
+  // ── Walking ──────────────────────────────────────────────────
+  const pickWaypoint = () => {
+    const long = Math.random() < LONG_WALK_CHANCE;
+    for (let tries = 0; tries < 10; tries++) {
+      const target = long
+        ? { x: Math.random() * WORLD_W, y: Math.random() * WORLD_H }
+        : { x: x + (Math.random() - 0.5) * 2 * SHORT_WALK, y: y + (Math.random() - 0.5) * 2 * SHORT_WALK };
+      if (isWalkable(target.x, target.y)) return target;
+    }
+    return null;
+  };
+
+  function step() {
+    const now = Date.now();
+    const dt = Math.min((now - lastStepAt) / 1000, MAX_STEP_SEC);
+    lastStepAt = now;
+
+    let dx = 0;
+    let dy = 0;
+    if (now >= pausedUntil) {
+      waypoint ??= pickWaypoint();
+      if (waypoint) {
+        const dist = Math.hypot(waypoint.x - x, waypoint.y - y);
+        const travel = Math.min(dist, PLAYER_SPEED * dt);
+        dx = round2(((waypoint.x - x) / (dist || 1)) * travel);
+        dy = round2(((waypoint.y - y) / (dist || 1)) * travel);
+        if (!isWalkable(x + dx, y + dy)) {
+          // The lake's in the way — go somewhere else
+          dx = dy = 0;
+          waypoint = null;
+        } else if (travel >= dist - 1) {
+          waypoint = null;
+          pausedUntil = now + between(PAUSE_MS);
+        }
+      }
+    }
+
+    const input = { seq: ++seq, dx, dy };
+    pending.push(input);
+    x += dx;
+    y += dy;
+    socket.emit(EVENTS.PLAYER_MOVE, input);
+    stats.movesSent++;
+    if (playerId && (dx !== 0 || dy !== 0)) latency.sent(playerId, x, y, now);
+  }
+
+  // ── Calls ────────────────────────────────────────────────────
+  function scheduleCall() {
+    later(between([0.5, 1.5]) * options.callEveryMs, () => {
+      if (stopped) return;
+      const others = Array.from(inView);
+      if (!callPeer && others.length > 0) {
+        callPeer = others[Math.floor(Math.random() * others.length)];
+        stats.calls.requested++;
+        socket.emit(EVENTS.CALL_REQUEST, { to: callPeer });
+      }
+      scheduleCall();
+    });
+  }
+
+  socket.on(EVENTS.CALL_REQUEST, ({ from }) => {
+    if (callPeer || Math.random() < 0.5) {
+      socket.emit(EVENTS.CALL_DECLINE, { to: from });
+      return;
+    }
+    callPeer = from;
+    socket.emit(EVENTS.CALL_ACCEPT, { to: from });
+  });
+  socket.on(EVENTS.CALL_ACCEPT, ({ from }) => {
+    stats.calls.accepted++;
+    later(between(CALL_LENGTH_MS), () => {
+      if (callPeer !== from) return;
+      socket.emit(EVENTS.CALL_END, { to: from });
+      callPeer = null;
+    });
+  });
+  socket.on(EVENTS.CALL_DECLINE, ({ reason }) => {
+    if (reason === "busy") stats.calls.busy++;
+    else stats.calls.declined++;
+    callPeer = null;
+  });
+  socket.on(EVENTS.CALL_END, ({ reason }) => {
+    if (reason === "missed") stats.calls.missed++;
+    callPeer = null;
+  });
+  socket.on(EVENTS.SIGNAL_REJECTED, () => { callPeer = null; });
+
+  function stop() {
+    if (stopped) return;
+    stopped = true;
+    for (const t of timers) clearTimeout(t);
+    socket.disconnect();
+  }
+
+  return { stop };
+}
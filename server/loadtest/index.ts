@@ -0,0 +1,226 @@
+import { parseArgs } from "node:util";
+import { createHmac } from "crypto";
+import { monitorEventLoopDelay } from "perf_hooks";
+import { EVENTS } from "@mping/shared";
+import { Bot, startBot } from "./bot";
+import { LatencyTracker, LoadStats, createStats, growth, scrapeCounters, total } from "./stats";
+
+// ─────────────────────────────────────────────────────────────────
+//  LOAD TEST
+//
+//  npm run loadtest -w server -- --bots 100 --duration 60
+//
+//  Starts --bots headless players (bot.ts) against a server you've
+//  started yourself on this machine, spread over --rooms rooms, and
+//  reports what it costs: moves sent, messages received (mostly the
+//  PLAYER_MOVED fan-out), movement latency from one bot's move to
+//  another bot seeing it, and what the server dropped — rate limits,
+//  malformed payloads, refused moves — read from its GET /metrics.
+//
+//  Everything runs on localhost: the CLI refuses any other host, so
+//  it can't be pointed at someone else's server by mistake.
+//
+//  The bots share this process and its one thread. If the "load
+//  generator lag" in the report climbs, the CLI is the bottleneck,
+//  not the server — its latency numbers are then too high. Run fewer
+//  bots per process (several CLIs, one room each) to go bigger.
+// ─────────────────────────────────────────────────────────────────
+
+const USAGE = `Usage: npm run loadtest -w server -- [options]
+
+  --url <url>           Server to test (default http://localhost:3001; localhost only)
+  --bots <n>            Bots to start (default 20)
+  --rooms <n>           Rooms to spread them over (default 1)
+  --room <name>         Room name; rooms are <name>-1, <name>-2, … with --rooms > 1 (default loadtest)
+  --duration <sec>      How long to run once every bot has started (default 30)
+  --ramp <n>            Bots started per second (default 20)
+  --calls <sec>         Each bot rings someone in view about this often (default 0 = never)
+  --auth-secret <s>     Sign bots in with HS256 tokens (the server's AUTH_JWT_SECRET), for servers without guests
+  --json                Print the final report as JSON
+  --help`;
+
+const LOCALHOST = new Set(["localhost", "127.0.0.1", "[::1]"]);
+const PROGRESS_EVERY_MS = 5000;
+const SETTLE_MS = 1000;   // after stopping, for the server to count the last events
+const LAG_RESOLUTION_MS = 10;
+
+const { values: args } = parseArgs({
+  options: {
+    url: { type: "string", default: "http://localhost:3001" },
+    bots: { type: "string", default: "20" },
+    rooms: { type: "string", default: "1" },
+    room: { type: "string", default: "loadtest" },
+    duration: { type: "string", default: "30" },
+    ramp: { type: "string", default: "20" },
+    calls: { type: "string", default: "0" },
+    "auth-secret": { type: "string" },
+    json: { type: "boolean", default: false },
+    help: { type: "boolean", default: false },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+const positive = (name: string, value: string, min: number) => {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min) fail(`--${name} must be a number ≥ ${min}, got "${value}".`);
+  return n;
+};
+
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+let url: URL;
+try {
+  url = new URL(args.url);
+} catch {
+  fail(`--url "${args.url}" isn't a URL.`);
+}
+if (!LOCALHOST.has(url.hostname)) fail(`--url must be on this machine (localhost), not ${url.hostname}.`);
+
+const botCount = Math.floor(positive("bots", args.bots, 1));
+const roomCount = Math.floor(positive("rooms", args.rooms, 1));
+const durationMs = positive("duration", args.duration, 1) * 1000;
+const rampPerSec = positive("ramp", args.ramp, 1);
+const callEveryMs = positive("calls", args.calls, 0) * 1000;
+
+const roomName = (i: number) => roomCount === 1 ? args.room : `${args.room}-${(i % roomCount) + 1}`;
+
+/** An HS256 sign-in token for bot `i`, as the server's auth.ts expects. */
+const tokenFor = (i: number, secret: string) => {
+  const b64 = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const signed = `${b64({ alg: "HS256", typ: "JWT" })}.${b64({ sub: `loadtest-${i}`, exp: Math.floor(Date.now() / 1000) + 3600 })}`;
+  return `${signed}.${createHmac("sha256", secret).update(signed).digest("base64url")}`;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const perSec = (n: number, ms: number) => Math.round(n / (ms / 1000));
+const ms = (n: number | null) => n === null ? "–" : `${Math.round(n)} ms`;
+
+// ── Report ─────────────────────────────────────────────────────
+
+function progressLine(stats: LoadStats, elapsedMs: number, window: { at: number; moves: number; received: number }) {
+  const now = Date.now();
+  const span = now - window.at;
+  const received = total(stats.received);
+  const line = `[${String(Math.round(elapsedMs / 1000)).padStart(4)}s] ${stats.joined}/${botCount} joined`
+    + ` · sent ${perSec(stats.movesSent - window.moves, span)} moves/s`
+    + ` · received ${perSec(received - window.received, span)} msgs/s`
+    + ` · latency p50 ${ms(stats.latency.percentile(50))} p99 ${ms(stats.latency.percentile(99))}`;
+  Object.assign(window, { at: now, moves: stats.movesSent, received });
+  return line;
+}
+
+async function main() {
+  const stats = createStats();
+  const latency = new LatencyTracker(stats.latency);
+  const lag = monitorEventLoopDelay({ resolution: LAG_RESOLUTION_MS });
+
+  const before = await scrapeCounters(url.href);
+  if (!before) console.error(`Couldn't read ${new URL("/metrics", url)} — server-side drops won't be reported.`);
+
+  console.error(`Starting ${botCount} bot(s) in ${roomCount} room(s) against ${url.origin}…`);
+  lag.enable();
+  const startedAt = Date.now();
+  const window = { at: startedAt, moves: 0, received: 0 };
+  const progress = setInterval(() => console.error(progressLine(stats, Date.now() - startedAt, window)), PROGRESS_EVERY_MS);
+
+  const bots: Bot[] = [];
+  for (let i = 0; i < botCount; i++) {
+    bots.push(startBot({
+      url: url.origin,
+      roomId: roomName(i),
+      name: `bot-${i + 1}`,
+      token: args["auth-secret"] ? tokenFor(i + 1, args["auth-secret"]) : undefined,
+      callEveryMs,
+    }, stats, latency));
+    await wait(1000 / rampPerSec);
+  }
+
+  // Measure from here: everyone's in (or has given up)
+  const measuredFrom = Date.now();
+  const at = { moves: stats.movesSent, received: total(stats.received), moved: stats.received.get(EVENTS.PLAYER_MOVED) ?? 0, positions: stats.positionsReceived };
+  await wait(durationMs);
+  const measuredMs = Date.now() - measuredFrom;
+  const moves = stats.movesSent - at.moves;
+  const received = total(stats.received) - at.received;
+  const snapshots = (stats.received.get(EVENTS.PLAYER_MOVED) ?? 0) - at.moved;
+  const positions = stats.positionsReceived - at.positions;
+
+  clearInterval(progress);
+  lag.disable();
+  for (const bot of bots) bot.stop();
+  await wait(SETTLE_MS);
+  const after = before && await scrapeCounters(url.href);
+
+  const server = before && after ? {
+    rateLimited: growth(before, after, "mping_rate_limited_total"),
+    malformed: growth(before, after, "mping_payloads_dropped_total"),
+    refusedMoves: growth(before, after, "mping_rejections_total", { event: EVENTS.PLAYER_MOVE }),
+    floodDisconnects: growth(before, after, "mping_flood_disconnects_total"),
+  } : null;
+
+  const report = {
+    url: url.origin,
+    bots: botCount,
+    rooms: roomCount,
+    durationSec: Math.round(measuredMs / 1000),
+    joined: stats.joined,
+    joinRejected: Object.fromEntries(stats.joinRejected),
+    connectErrors: stats.connectErrors,
+    dropped: stats.dropped,
+    sent: { movesPerSec: perSec(moves, measuredMs) },
+    received: {
+      msgsPerSec: perSec(received, measuredMs),
+      snapshotsPerSec: perSec(snapshots, measuredMs),
+      positionsPerSec: perSec(positions, measuredMs),
+      byEvent: Object.fromEntries(stats.received),
+    },
+    latencyMs: {
+      samples: stats.latency.count,
+      p50: stats.latency.percentile(50),
+      p90: stats.latency.percentile(90),
+      p99: stats.latency.percentile(99),
+      max: stats.latency.count ? Math.round(stats.latency.max) : null,
+    },
+    corrections: stats.corrections,
+    server,
+    calls: callEveryMs > 0 ? stats.calls : null,
+    // The histogram times a LAG_RESOLUTION_MS timer; the lag is how late it fired
+    loadGeneratorLagMs: {
+      p50: Math.max(0, lag.percentile(50) / 1e6 - LAG_RESOLUTION_MS),
+      p99: Math.max(0, lag.percentile(99) / 1e6 - LAG_RESOLUTION_MS),
+    },
+  };
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    const rejected = total(stats.joinRejected);
+    const lines = [
+      ``,
+      `${botCount} bots in ${roomCount} room(s) for ${report.durationSec}s against ${url.origin}`,
+      `  Bots         ${stats.joined} joined · ${rejected} rejected${rejected ? ` (${Array.from(stats.joinRejected, ([r, n]) => `${r} ${n}`).join(", ")})` : ""}`
+        + ` · ${stats.connectErrors} connect errors · ${stats.dropped} dropped`,
+      `  Sent         ${report.sent.movesPerSec} moves/s`,
+      `  Received     ${report.received.msgsPerSec} msgs/s — ${report.received.snapshotsPerSec} snapshots/s carrying ${report.received.positionsPerSec} positions/s`,
+      `  Latency      p50 ${ms(report.latencyMs.p50)} · p90 ${ms(report.latencyMs.p90)} · p99 ${ms(report.latencyMs.p99)} · max ${ms(report.latencyMs.max)}`
+        + `  (${stats.latency.count} samples; move sent → seen by another bot, tick wait included)`,
+      `  Corrections  ${stats.corrections}`,
+      server
+        ? `  Server drops ${server.rateLimited} rate-limited · ${server.malformed} malformed · ${server.refusedMoves} refused moves · ${server.floodDisconnects} flood disconnects`
+        : `  Server drops unknown (no /metrics)`,
+      ...(report.calls ? [`  Calls        ${report.calls.requested} requested · ${report.calls.accepted} accepted · ${report.calls.declined} declined · ${report.calls.busy} busy · ${report.calls.missed} missed`] : []),
+      `  Load gen lag p50 ${ms(report.loadGeneratorLagMs.p50)} · p99 ${ms(report.loadGeneratorLagMs.p99)}`,
+    ];
+    console.log(lines.join("\n"));
+  }
+  process.exit(0);
+}
+
+void main();
@@ -0,0 +1,156 @@
+// ─────────────────────────────────────────────────────────────────
+//  LOAD TEST STATS
+//
+//  What the bots count (LoadStats), how movement latency is measured
+//  (LatencyTracker) and how it's summarised (LatencyHistogram), plus
+//  the server's own drop counters from GET /metrics.
+// ─────────────────────────────────────────────────────────────────
+
+/** Counters every bot adds to. */
+export interface LoadStats {
+  connected: number;
+  joined: number;
+  joinRejected: Map<string, number>;   // by reason
+  connectErrors: number;
+  dropped: number;                     // disconnected mid-run
+  movesSent: number;
+  received: Map<string, number>;       // server events, by name
+  positionsReceived: number;           // player entries across all PLAYER_MOVED snapshots
+  corrections: number;                 // POSITION_CORRECTIONs
+  latency: LatencyHistogram;
+  calls: { requested: number; accepted: number; declined: number; busy: number; missed: number };
+}
+
+export function createStats(): LoadStats {
+  return {
+    connected: 0,
+    joined: 0,
+    joinRejected: new Map(),
+    connectErrors: 0,
+    dropped: 0,
+    movesSent: 0,
+    received: new Map(),
+    positionsReceived: 0,
+    corrections: 0,
+    latency: new LatencyHistogram(),
+    calls: { requested: 0, accepted: 0, declined: 0, busy: 0, missed: 0 },
+  };
+}
+
+export const countInto = (map: Map<string, number>, key: string, n = 1) => map.set(key, (map.get(key) ?? 0) + n);
+
+/** Sum of every counter in `map`. */
+export const total = (map: Map<string, number>) => Array.from(map.values()).reduce((a, b) => a + b, 0);
+
+// ── Latency ────────────────────────────────────────────────────
+// One sample per (move, viewer): from the moment a bot sends a move
+// to the moment another bot gets a snapshot carrying the position
+// that move produced. Bots track their position exactly as the server
+// does, so the rounded position identifies the move. That includes
+// the wait for the next tick — the latency a player actually sees.
+
+const MAX_TRACKED_MOVES = 100;   // per mover; 5 s of moves at the emit rate
+
+/**
+ * Matches positions seen in snapshots back to the moves that produced
+ * them. Shared by every bot in the run: they all live in this process,
+ * so sender and viewer read the same clock.
+ */
+export class LatencyTracker {
+  /** mover ID → its recent moves, oldest first */
+  private moves = new Map<string, { x: number; y: number; sentAt: number }[]>();
+  /** "viewer>mover" → when the last move the viewer matched was sent */
+  private lastMatched = new Map<string, number>();
+
+  constructor(private histogram: LatencyHistogram) {}
+
+  /** A move was sent that leaves `moverId` at (x, y). */
+  sent(moverId: string, x: number, y: number, sentAt: number) {
+    let list = this.moves.get(moverId);
+    if (!list) this.moves.set(moverId, list = []);
+    list.push({ x: Math.round(x), y: Math.round(y), sentAt });
+    if (list.length > MAX_TRACKED_MOVES) list.shift();
+  }
+
+  /** `viewerId` got a snapshot saying `moverId` is at (x, y). */
+  seen(viewerId: string, moverId: string, x: number, y: number, now: number) {
+    const list = this.moves.get(moverId);
+    if (!list) return;
+    const key = `${viewerId}>${moverId}`;
+    const after = this.lastMatched.get(key) ?? 0;
+    // Newest first: walking back over the same pixel matches the latest
+    for (let i = list.length - 1; i >= 0 && list[i].sentAt > after; i--) {
+      if (list[i].x === x && list[i].y === y) {
+        this.lastMatched.set(key, list[i].sentAt);
+        this.histogram.add(now - list[i].sentAt);
+        return;
+      }
+    }
+    // No match: a repeat ("stopped") or a position we no longer track
+  }
+}
+
+/**
+ * Fixed 1 ms buckets up to MAX_MS. A big run produces millions of
+ * samples; this keeps memory flat and percentiles exact to the ms.
+ */
+export class LatencyHistogram {
+  static readonly MAX_MS = 10_000;
+  private counts = new Uint32Array(LatencyHistogram.MAX_MS + 1);
+  count = 0;
+  max = 0;
+
+  add(ms: number) {
+    const bucket = Math.min(LatencyHistogram.MAX_MS, Math.max(0, Math.round(ms)));
+    this.counts[bucket]++;
+    this.count++;
+    if (ms > this.max) this.max = ms;
+  }
+
+  /** The `p`th percentile (0–100) in ms, or null with no samples. */
+  percentile(p: number): number | null {
+    if (this.count === 0) return null;
+    const rank = Math.ceil((p / 100) * this.count);
+    let seen = 0;
+    for (let ms = 0; ms < this.counts.length; ms++) {
+      seen += this.counts[ms];
+      if (seen >= rank) return ms;
+    }
+    return LatencyHistogram.MAX_MS;
+  }
+}
+
+// ── Server counters ────────────────────────────────────────────
+// The server counts what it drops (rate limits, malformed payloads,
+// refused moves) in GET /metrics. Scraped before and after the run;
+// the difference is this run's.
+
+/** Series ("name{labels}") → value, from the Prometheus text format. */
+export type Counters = Map<string, number>;
+
+export async function scrapeCounters(baseUrl: string): Promise<Counters | null> {
+  try {
+    const res = await fetch(new URL("/metrics", baseUrl));
+    if (!res.ok) return null;
+    const counters: Counters = new Map();
+    for (const line of (await res.text()).split("\n")) {
+      if (!line || line.startsWith("#")) continue;
+      const at = line.lastIndexOf(" ");
+      counters.set(line.slice(0, at), Number(line.slice(at + 1)));
+    }
+    return counters;
+  } catch {
+    return null;
+  }
+}
+
+/** How much the series named `name` (and matching `labels`) grew between two scrapes. */
+export function growth(before: Counters, after: Counters, name: string, labels: Record<string, string> = {}): number {
+  let sum = 0;
+  for (const [series, value] of after) {
+    if (series !== name && !series.startsWith(`${name}{`)) continue;
+    if (!Object.entries(labels).every(([k, v]) => series.includes(`${k}="${v}"`))) continue;
+    sum += value - (before.get(series) ?? 0);
+  }
+  return sum;
+}
@@ -0,0 +1,165 @@
+import cluster from "node:cluster";
+import { Namespace, Server } from "socket.io";
+import { ClusterAdapterWithHeartbeat, ClusterMessage, ClusterResponse, ServerId } from "socket.io-adapter";
+import { createAdapter as createRedisAdapter } from "@socket.io/redis-adapter";
+import { createClient } from "redis";
+import { BlockEntry, ChatMessage, ClientToServerEvents, Player, RoomSettings, ServerToClientEvents } from "@mping/shared";
+import { StoredRoom, StoredSession } from "./roomStore";
+import { RoomAccess } from "./roomAccess";
+import { Ban } from "./moderation";
+import { log } from "./log";
+import { config } from "./config";
+
+// ─────────────────────────────────────────────────────────────────
+//  MULTI-NODE
+//
+//  Several server processes can share the load behind a load
+//  balancer. Two things make that work:
+//
+//    1. A Socket.IO adapter, so `io.to(room)` and `socket.to(player)`
+//       reach sockets on every node — that's all relaying a call or a
+//       WebRTC offer to someone on another node needs.
+//    2. Every node keeping the same picture of rooms, sessions, calls
+//       and chat. Nodes send each other their changes as server-side
+//       events (InterServerEvents below) over that same adapter, and
+//       each keeps a full replica — see replicatedRoomStore.ts.
+//
+//  Picked by CLUSTER_ADAPTER:
+//    none (default) — one node, Socket.IO's in-memory adapter.
+//    redis          — Redis pub/sub at REDIS_URL. For production.
+//    ipc            — node:cluster messages, relayed by the primary.
+//                     The local stand-in: `npm run dev:cluster` runs
+//                     several nodes on one machine with no Redis.
+//
+//  WHY sticky sessions?
+//  The client starts on HTTP long-polling, and every poll of one
+//  connection must hit the node that holds it. Configure the load
+//  balancer for sticky sessions (cookie or IP hash); WebSocket-only
+//  traffic would not need it.
+// ─────────────────────────────────────────────────────────────────
+export const CLUSTER_ADAPTER = config.cluster.adapter;
+export const isClustered = CLUSTER_ADAPTER !== "none";
+
+/** One change to the room store, as sent between nodes. */
+export type StoreOp =
+  | { op: "create"; roomId: string; settings: RoomSettings }
+  | { op: "add"; roomId: string; player: Player }
+  | { op: "update"; roomId: string; playerId: string; changes: Partial<Player> }
+  | { op: "remove"; roomId: string; playerId: string }
+  | { op: "access"; roomId: string; access: RoomAccess }
+  | { op: "saveSession"; session: StoredSession }
+  | { op: "deleteSession"; token: string }
+  | { op: "saveBan"; ban: Ban }
+  | { op: "deleteBan"; playerId: string }
+  | { op: "saveBlocks"; blockerId: string; entries: BlockEntry[] };
+
+/** Everything one node can tell the others (io.serverSideEmit). */
+export interface InterServerEvents {
+  // Room store (replicatedRoomStore.ts)
+  "store:ops": (ops: StoreOp[]) => void;
+  "store:hello": () => void;  // a node just started — please send your state
+  "store:state": (rooms: Record<string, StoredRoom>, sessions: StoredSession[], bans: Ban[],
+                  blocks: Record<string, BlockEntry[]>) => void;
+  // A session moved to the node that sent this (client reconnected there)
+  "session:resumed": (token: string, socketId: string) => void;
+  // Call state (calls.ts) — only the node that started a call runs its ring timer
+  "call:start": (callId: string, caller: string, callee: string) => void;
+  "call:connect": (caller: string, callee: string) => void;
+  "call:end": (caller: string, callee: string) => void;
+  // Room chat history (chat.ts)
+  "chat:record": (roomId: string, message: ChatMessage) => void;
+  // Moderation (admin.ts) — a removed player held for reconnect is
+  // ended by whichever node holds them. Bans travel as store ops.
+  "player:evict": (playerId: string) => void;
+  // A guest's whole block list (blocks.ts), after any change — a
+  // signed-in player's travels as a store op
+  "blocks:set": (blockerId: string, entries: BlockEntry[]) => void;
+}
+
+export type GameServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents>;
+
+/** Switch `io` to the adapter picked by CLUSTER_ADAPTER. */
+export async function attachAdapter(io: GameServer): Promise<void> {
+  switch (CLUSTER_ADAPTER) {
+    case "none":
+      return;
+
+    case "ipc":
+      if (!cluster.isWorker) {
+        throw new Error(`CLUSTER_ADAPTER=ipc only works under node:cluster — start with "npm run dev:cluster".`);
+      }
+      io.adapter(IpcAdapter);
+      return;
+
+    case "redis": {
+      const pubClient = createClient({ url: config.cluster.redisUrl });
+      const subClient = pubClient.duplicate();
+      for (const client of [pubClient, subClient]) {
+        client.on("error", (err) => log.error("Redis error", { err }));
+      }
+      await Promise.all([pubClient.connect(), subClient.connect()]);
+      io.adapter(createRedisAdapter(pubClient, subClient));
+      return;
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  IPC ADAPTER (local stand-in)
+//
+//  Socket.IO's ClusterAdapter does the hard part (broadcasts, room
+//  joins, server-side events, heartbeats); it only needs a way to
+//  publish a message to the other nodes. Here that's process.send()
+//  to the cluster primary, which hands it to every other worker.
+//  Responses are addressed to one node, but go through the same
+//  relay — each worker ignores the ones that aren't for it.
+// ─────────────────────────────────────────────────────────────────
+interface IpcEnvelope {
+  mpingAdapter: true;
+  message?: ClusterMessage;
+  response?: ClusterResponse;
+  to?: ServerId;
+}
+
+const isEnvelope = (msg: unknown): msg is IpcEnvelope =>
+  typeof msg === "object" && msg !== null && (msg as IpcEnvelope).mpingAdapter === true;
+
+class IpcAdapter extends ClusterAdapterWithHeartbeat {
+  private onIpc = (msg: unknown) => {
+    if (!isEnvelope(msg)) return;
+    if (msg.message) this.onMessage(msg.message);
+    if (msg.response && msg.to === this.uid) this.onResponse(msg.response);
+  };
+
+  constructor(nsp: Namespace) {
+    super(nsp, {});
+    process.on("message", this.onIpc);
+  }
+
+  close() {
+    process.off("message", this.onIpc);
+    super.close();
+  }
+
+  protected doPublish(message: ClusterMessage) {
+    const envelope: IpcEnvelope = { mpingAdapter: true, message };
+    process.send!(envelope);
+    return Promise.resolve("");  // no offsets — IPC keeps no history to replay
+  }
+
+  protected doPublishResponse(requesterUid: ServerId, response: ClusterResponse) {
+    const envelope: IpcEnvelope = { mpingAdapter: true, response, to: requesterUid };
+    process.send!(envelope);
+    return Promise.resolve();
+  }
+}
+
+/** In the cluster primary: pass adapter messages from each worker to the rest. */
+export function relayAdapterMessages() {
+  cluster.on("message", (from, msg) => {
+    if (!isEnvelope(msg)) return;
+    for (const worker of Object.values(cluster.workers ?? {})) {
+      if (worker && worker !== from && worker.isConnected()) worker.send(msg);
+    }
+  });
+}
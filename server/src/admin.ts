@@ -0,0 +1,232 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import { AnnouncementPayload, RoomSettings, ANNOUNCEMENT_MAX_LENGTH } from "@mping/shared";
+import { CallState } from "./calls";
+import { Ban } from "./moderation";
+import { AuditEntry, audit } from "./audit";
+import { ADMIN_BODY_SCHEMAS } from "./schemas";
+import { CONTROL_CHARS } from "./profile";
+import { RateLimit, createRateLimiter } from "./rateLimit";
+import { log as logger } from "./log";
+
+// ─────────────────────────────────────────────────────────────────
+//  ADMIN API
+//
+//  A small REST surface for ops, mounted at /admin:
+//
+//    GET    /admin/rooms                       every room, private ones too
+//    GET    /admin/rooms/:roomId               …with players, positions, calls
+//    POST   /admin/rooms/:roomId/close         { message? }  remove everyone
+//    POST   /admin/rooms/:roomId/announce      { text }      HUD banner
+//    POST   /admin/players/:playerId/kick      { reason? }
+//    POST   /admin/players/:playerId/ban       { reason?, durationMs?, byAddress? }
+//    GET    /admin/bans
+//    DELETE /admin/bans/:playerId
+//
+//  Every request needs `Authorization: Bearer <ADMIN_TOKEN>`. Without
+//  ADMIN_TOKEN set, the whole API answers 404 — it's off.
+//
+//  This file is only the HTTP side: auth, checking bodies, status
+//  codes and the audit log (audit.ts). What an action does to the game
+//  lives with the sockets and sessions in index.ts (AdminActions).
+// ─────────────────────────────────────────────────────────────────
+
+export interface AdminPlayer {
+  id: string;
+  name: string;
+  status?: string;
+  x: number;
+  y: number;
+  reconnecting: boolean;
+  call: { peerId: string; state: CallState } | null;
+}
+
+export interface AdminRoom {
+  id: string;
+  settings: RoomSettings;
+  playerCount: number;
+}
+
+export interface AdminRoomDetails extends AdminRoom {
+  players: AdminPlayer[];
+}
+
+export interface BanOptions {
+  reason: string | null;
+  durationMs: number | null;   // null = until lifted
+  byAddress: boolean;
+}
+
+/** What the API can do to the game. Implemented in index.ts. */
+export interface AdminActions {
+  listRooms(): AdminRoom[];
+  getRoom(roomId: string): AdminRoomDetails | undefined;
+  /** Remove everyone. Returns how many players that was, or undefined if there's no such room. */
+  closeRoom(roomId: string, message: string | null): number | undefined;
+  /** Undefined if there's no such room. */
+  announce(roomId: string, text: string): AnnouncementPayload | undefined;
+  /** Remove a player from their room. False if they aren't in one. */
+  kick(playerId: string, reason: string | null): boolean;
+  /** Ban a player (online or not), removing them if they're in a room. */
+  ban(playerId: string, options: BanOptions): Promise<Ban>;
+  listBans(): Ban[];
+  /** False if they weren't banned. */
+  liftBan(playerId: string): boolean;
+}
+
+/** Trimmed, whitespace collapsed; empty → null. */
+const clean = (s: string | undefined) => s?.trim().replace(/\s+/g, " ") || null;
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest();
+
+/** A ban as the API shows it: without the player's session token. */
+const banInfo = ({ token: _token, ...ban }: Ban) => ban;
+
+/**
+ * How many refused requests make it into the audit log. Anyone can
+ * send those, so past a short burst they're counted rather than each
+ * written out.
+ */
+const REFUSED_AUDIT_LIMIT: RateLimit = { perSecond: 1, burst: 10 };
+
+export function createAdminRouter(token: string | null, actions: AdminActions): Router {
+  const router = Router();
+
+  if (!token) {
+    router.use((_req, res) => { res.status(404).json({ error: "The admin API is off (ADMIN_TOKEN is not set)." }); });
+    return router;
+  }
+
+  const log = (req: Request, entry: AuditEntry) => audit({ ...entry, ip: req.ip });
+
+  // Compare digests, not the tokens: timingSafeEqual needs equal
+  // lengths, and this way the token's length doesn't leak either
+  const expected = sha256(token);
+  const refusals = createRateLimiter({ auth: REFUSED_AUDIT_LIMIT }, { maxDrops: Infinity, windowMs: 0 });
+  let unaudited = 0;
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    const header = req.get("authorization") ?? "";
+    const given = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+    if (given && timingSafeEqual(sha256(given), expected)) {
+      next();
+      return;
+    }
+    if (refusals.take("auth") === "ok") {
+      // `unaudited`: refusals since the last one written, over the limit
+      log(req, { action: "auth", outcome: "refused", method: req.method, path: req.originalUrl, unaudited });
+      unaudited = 0;
+    } else {
+      unaudited++;
+    }
+    res.status(401).set("WWW-Authenticate", "Bearer").json({ error: "Admin token required." });
+  });
+
+  const invalid = (req: Request, res: Response, action: string, error: string) => {
+    log(req, { action, outcome: "invalid", params: req.params });
+    res.status(400).json({ error });
+  };
+
+  // ── Rooms ──────────────────────────────────────────────────────
+  router.get("/rooms", (_req, res) => {
+    res.json(actions.listRooms());
+  });
+
+  router.get("/rooms/:roomId", (req, res) => {
+    const room = actions.getRoom(req.params.roomId);
+    if (!room) {
+      res.status(404).json({ error: "No such room." });
+      return;
+    }
+    res.json(room);
+  });
+
+  router.post("/rooms/:roomId/close", (req, res) => {
+    const { roomId } = req.params;
+    if (!ADMIN_BODY_SCHEMAS.close(req.body)) return invalid(req, res, "room.close", "Expected { message?: string }.");
+
+    const message = clean(req.body.message);
+    const removed = actions.closeRoom(roomId, message);
+    log(req, { action: "room.close", outcome: removed === undefined ? "not_found" : "ok", roomId, message, removed });
+    if (removed === undefined) {
+      res.status(404).json({ error: "No such room." });
+      return;
+    }
+    res.json({ removed });
+  });
+
+  router.post("/rooms/:roomId/announce", (req, res) => {
+    const { roomId } = req.params;
+    if (!ADMIN_BODY_SCHEMAS.announce(req.body)) return invalid(req, res, "room.announce", "Expected { text: string }.");
+
+    const text = clean(req.body.text);
+    if (!text || text.length > ANNOUNCEMENT_MAX_LENGTH || CONTROL_CHARS.test(text)) {
+      return invalid(req, res, "room.announce", `Announcements are 1–${ANNOUNCEMENT_MAX_LENGTH} characters.`);
+    }
+    const announcement = actions.announce(roomId, text);
+    log(req, { action: "room.announce", outcome: announcement ? "ok" : "not_found", roomId, text });
+    if (!announcement) {
+      res.status(404).json({ error: "No such room." });
+      return;
+    }
+    res.json(announcement);
+  });
+
+  // ── Players ────────────────────────────────────────────────────
+  router.post("/players/:playerId/kick", (req, res) => {
+    const { playerId } = req.params;
+    if (!ADMIN_BODY_SCHEMAS.kick(req.body)) return invalid(req, res, "player.kick", "Expected { reason?: string }.");
+
+    const reason = clean(req.body.reason);
+    const kicked = actions.kick(playerId, reason);
+    log(req, { action: "player.kick", outcome: kicked ? "ok" : "not_found", playerId, reason });
+    if (!kicked) {
+      res.status(404).json({ error: "That player isn't in a room." });
+      return;
+    }
+    res.json({ kicked: true });
+  });
+
+  router.post("/players/:playerId/ban", (req, res) => {
+    const { playerId } = req.params;
+    const body = req.body;
+    if (!ADMIN_BODY_SCHEMAS.ban(body)) {
+      return invalid(req, res, "player.ban", "Expected { reason?: string, durationMs?: number, byAddress?: boolean }.");
+    }
+    if (body.durationMs !== undefined && !(Number.isInteger(body.durationMs) && body.durationMs > 0)) {
+      return invalid(req, res, "player.ban", "durationMs must be a positive whole number.");
+    }
+
+    const options: BanOptions = {
+      reason: clean(body.reason),
+      durationMs: body.durationMs ?? null,
+      byAddress: body.byAddress ?? false,
+    };
+    actions.ban(playerId, options)
+      .then((ban) => {
+        log(req, { action: "player.ban", outcome: "ok", ...banInfo(ban) });
+        res.json(banInfo(ban));
+      })
+      .catch((err: Error) => {
+        logger.error("Ban failed", { playerId, err });
+        res.status(500).json({ error: "Ban failed." });
+      });
+  });
+
+  // ── Bans ───────────────────────────────────────────────────────
+  router.get("/bans", (_req, res) => {
+    res.json(actions.listBans().map(banInfo));
+  });
+
+  router.delete("/bans/:playerId", (req, res) => {
+    const { playerId } = req.params;
+    const lifted = actions.liftBan(playerId);
+    log(req, { action: "ban.lift", outcome: lifted ? "ok" : "not_found", playerId });
+    if (!lifted) {
+      res.status(404).json({ error: "That player isn't banned." });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
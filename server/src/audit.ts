@@ -0,0 +1,45 @@
+import fs from "fs";
+import path from "path";
+import { log } from "./log";
+import { config } from "./config";
+
+// ─────────────────────────────────────────────────────────────────
+//  AUDIT LOG
+//
+//  Every admin action that changes something (admin.ts), and requests
+//  refused for a bad token (rate limited, see admin.ts), are appended
+//  to AUDIT_LOG_PATH (default data/audit.log) as one JSON object per
+//  line, and echoed to the server log (log.ts). Append-only, never
+//  rotated here: that's logrotate's job.
+//
+//  WHY a write stream?
+//  Appends through one stream land in the order they were made, and
+//  the request never waits on the disk.
+// ─────────────────────────────────────────────────────────────────
+const AUDIT_LOG_PATH = config.admin.auditLogPath;
+
+export interface AuditEntry {
+  action: string;                // e.g. "kick", "room.close", "auth.refused"
+  ip?: string;                   // who made the request
+  outcome: "ok" | "not_found" | "invalid" | "refused";
+  [detail: string]: unknown;     // what it was done to: playerId, roomId, reason, …
+}
+
+let stream: fs.WriteStream | null = null;
+
+function open(): fs.WriteStream {
+  fs.mkdirSync(path.dirname(AUDIT_LOG_PATH), { recursive: true });
+  const s = fs.createWriteStream(AUDIT_LOG_PATH, { flags: "a" });
+  s.on("error", (err) => {
+    log.error("Audit log write failed", { path: AUDIT_LOG_PATH, err });
+    stream = null;  // try to reopen on the next entry
+  });
+  return s;
+}
+
+/** Record one admin action. */
+export function audit(entry: AuditEntry) {
+  const line = JSON.stringify({ at: new Date().toISOString(), ...entry });
+  log.info("Admin action", { scope: "audit", ...entry });
+  (stream ??= open()).write(line + "\n");
+}
@@ -0,0 +1,128 @@
+import { KeyObject, createHmac, timingSafeEqual, verify } from "crypto";
+import { AuthErrorData } from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  AUTHENTICATION
+//
+//  Every socket passes through a handshake middleware (index.ts) that
+//  works out who it is before any event handler runs:
+//
+//    • A signed token in `auth.token` — a JWT from the site embedding
+//      mping, verified against AUTH_JWT_SECRET (HS256) or the public
+//      key at AUTH_JWT_PUBLIC_KEY_PATH (RS256 / ES256). Its `sub` is
+//      the player ID: the same person gets the same ID from any
+//      device, so bans and calls follow them.
+//    • Nothing — a guest. Guests get a random player ID, kept for as
+//      long as their session token (see SESSIONS in index.ts). Allowed
+//      unless AUTH_ALLOW_GUESTS=false.
+//
+//  A token that is present but bad is refused, never downgraded to a
+//  guest: the client asked to be someone and we can't confirm it.
+//
+//  WHY hand-rolled instead of jsonwebtoken/jose?
+//  Checking one signature and four claims is a page of node:crypto,
+//  the same trade-off as schemas.ts.
+// ─────────────────────────────────────────────────────────────────
+
+/** Who a socket is. Kept on `socket.data`. */
+export interface Identity {
+  userId: string | null;   // the token's `sub`; null for a guest until their session gives them one
+  name: string | null;     // the token's `name`, if it has one — the default display name
+  guest: boolean;
+}
+
+/** How tokens are checked — from the config (`auth`, see config.ts). */
+export interface AuthOptions {
+  secret: string | null;
+  publicKey: KeyObject | null;
+  issuer: string | null;
+  audience: string | null;
+  allowGuests: boolean;
+}
+
+export type AuthResult = { identity: Identity } | AuthErrorData;
+
+// Clocks drift; a token a few seconds either side of its window is fine
+const CLOCK_TOLERANCE_SEC = 30;
+
+// Player IDs are capped at this (see PLAYER_ID in schemas.ts)
+const MAX_USER_ID_LENGTH = 64;
+
+const GUEST: Identity = { userId: null, name: null, guest: true };
+
+const invalid = (message: string): AuthErrorData => ({ reason: "invalid_token", message });
+
+const decode = (part: string): unknown => {
+  try {
+    return JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+};
+
+/** True if `signature` is right for `signed` under the token's `alg`. */
+function checkSignature(alg: unknown, signed: string, signature: Buffer, options: AuthOptions): boolean {
+  if (alg === "HS256" && options.secret) {
+    const expected = createHmac("sha256", options.secret).update(signed).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+  const key = options.publicKey;
+  if (alg === "RS256" && key?.asymmetricKeyType === "rsa") {
+    return verify("sha256", Buffer.from(signed), key, signature);
+  }
+  if (alg === "ES256" && key?.asymmetricKeyType === "ec") {
+    return verify("sha256", Buffer.from(signed), { key, dsaEncoding: "ieee-p1363" }, signature);
+  }
+  return false;  // "none", or an algorithm our key can't check
+}
+
+/** Verify a JWT and read the identity out of it. */
+export function verifyToken(token: string, options: AuthOptions, now = Date.now()): AuthResult {
+  const parts = token.split(".");
+  if (parts.length !== 3) return invalid("That sign-in token is malformed.");
+  const [header, payload, signature] = parts;
+
+  const head = decode(header) as { alg?: unknown } | undefined;
+  if (!head || !checkSignature(head.alg, `${header}.${payload}`, Buffer.from(signature, "base64url"), options)) {
+    return invalid("That sign-in token isn't valid here.");
+  }
+
+  const claims = decode(payload) as Record<string, unknown> | undefined;
+  if (!claims || typeof claims !== "object") return invalid("That sign-in token is malformed.");
+
+  const nowSec = now / 1000;
+  if (typeof claims.exp === "number" && nowSec > claims.exp + CLOCK_TOLERANCE_SEC) {
+    return { reason: "token_expired", message: "Your sign-in has expired — please sign in again." };
+  }
+  if (typeof claims.nbf === "number" && nowSec < claims.nbf - CLOCK_TOLERANCE_SEC) {
+    return invalid("That sign-in token isn't valid yet.");
+  }
+  if (options.issuer && claims.iss !== options.issuer) return invalid("That sign-in token is from someone else.");
+  if (options.audience) {
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!aud.includes(options.audience)) return invalid("That sign-in token is for something else.");
+  }
+
+  const { sub, name } = claims;
+  if (typeof sub !== "string" || !sub || sub.length > MAX_USER_ID_LENGTH) {
+    return invalid("That sign-in token doesn't say who you are.");
+  }
+  return {
+    identity: {
+      userId: sub,
+      name: typeof name === "string" ? name : null,
+      guest: false,
+    },
+  };
+}
+
+/** Who the handshake's `auth` object says this is, or why they can't connect. */
+export function authenticate(auth: unknown, options: AuthOptions, now = Date.now()): AuthResult {
+  const token = (auth as { token?: unknown } | undefined)?.token;
+  if (typeof token === "string" && token) {
+    if (!options.secret && !options.publicKey) return invalid("This server doesn't accept sign-in tokens.");
+    return verifyToken(token, options, now);
+  }
+  if (!options.allowGuests) return { reason: "auth_required", message: "Please sign in to join." };
+  return { identity: GUEST };
+}
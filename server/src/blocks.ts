@@ -0,0 +1,74 @@
+import { BlockEntry, BLOCK_LIST_MAX } from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  BLOCKS
+//
+//  Who each player has blocked, and how (see BLOCKING in the shared
+//  types). Keyed by player ID, so a signed-in player's blocks follow
+//  their account to any device; a guest's go when their session ends
+//  (index.ts calls forgetBlocks).
+//
+//  Like calls.ts this module only keeps state and answers questions;
+//  index.ts decides what to refuse and what to send.
+//
+//  Kept in memory and copied to every node. A signed-in player's list
+//  is also saved in the room store (see roomStore.ts), so it outlasts
+//  a restart and reaches a node that starts late; index.ts loads it
+//  back on start. A guest's list only goes to the other nodes (see
+//  index.ts, PEERS).
+//
+//  WHY is only "hide my avatar" enforced here?
+//  Hiding someone from yourself is a display preference: your client
+//  already has their avatar and can simply not draw it. Hiding
+//  yourself from them can't be left to their client — the server has
+//  to stop sending it (see isHiddenFrom).
+// ─────────────────────────────────────────────────────────────────
+
+/** blockerId → blocked player ID → the block */
+const blocks = new Map<string, Map<string, BlockEntry>>();
+
+/** Everyone `blockerId` has blocked, oldest first. */
+export function getBlocks(blockerId: string): BlockEntry[] {
+  return Array.from(blocks.get(blockerId)?.values() ?? []);
+}
+
+/** Replace `blockerId`'s whole list — from another node, or to clear it. */
+export function setBlocks(blockerId: string, entries: BlockEntry[]) {
+  if (entries.length === 0) blocks.delete(blockerId);
+  else blocks.set(blockerId, new Map(entries.map(e => [e.playerId, e])));
+}
+
+/**
+ * Add a block, or change an existing one. Returns false (and changes
+ * nothing) if that would take the list past BLOCK_LIST_MAX.
+ */
+export function block(blockerId: string, entry: BlockEntry): boolean {
+  let mine = blocks.get(blockerId);
+  if (!mine) blocks.set(blockerId, mine = new Map());
+  if (!mine.has(entry.playerId) && mine.size >= BLOCK_LIST_MAX) return false;
+  mine.set(entry.playerId, entry);
+  return true;
+}
+
+/** Lift a block. Returns false if there wasn't one. */
+export function unblock(blockerId: string, blockedId: string): boolean {
+  const mine = blocks.get(blockerId);
+  if (!mine?.delete(blockedId)) return false;
+  if (mine.size === 0) blocks.delete(blockerId);
+  return true;
+}
+
+/** Forget everything `blockerId` blocked. */
+export function forgetBlocks(blockerId: string) {
+  blocks.delete(blockerId);
+}
+
+/** True if `blockerId` has blocked `playerId`. */
+export function hasBlocked(blockerId: string, playerId: string): boolean {
+  return !!blocks.get(blockerId)?.has(playerId);
+}
+
+/** True if `viewerId` must not be sent `playerId`'s avatar. */
+export function isHiddenFrom(viewerId: string, playerId: string): boolean {
+  return !!blocks.get(playerId)?.get(viewerId)?.hideMyAvatar;
+}
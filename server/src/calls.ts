@@ -0,0 +1,92 @@
+import { CALL_RING_TIMEOUT_MS } from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  CALL STATE
+//
+//  Each browser's VoiceChatManager knows its own side of a call; this
+//  module is the shared truth the server acts on:
+//
+//    ringing ──accept──▶ connected ──hang up / drop──▶ ended
+//       │
+//       └──decline / no answer / drop / cancel──▶ ended
+//
+//  A player is in at most one call. Both participants map to the same
+//  Call object, so either ID finds it. Ended calls are removed; the
+//  handlers in index.ts tell the peer why.
+//
+//  Every call has an `id`, chosen by the node the CALL_REQUEST arrived
+//  on and shared with the others, so a call's log lines from ringing
+//  to hang-up can be found together (log.ts).
+//
+//  This module only keeps state. Who gets told what stays with the
+//  socket handlers, which already know about rooms and sessions.
+// ─────────────────────────────────────────────────────────────────
+export type CallState = "ringing" | "connected" | "ended";
+
+export interface Call {
+  id: string;                        // correlation ID for the logs
+  caller: string;                    // player ID that sent CALL_REQUEST
+  callee: string;                    // player ID being rung
+  state: CallState;
+  ringTimer: NodeJS.Timeout | null;  // pending "missed" timeout while ringing
+}
+
+const calls = new Map<string, Call>();
+
+/** The call `playerId` is ringing or talking in, if any. */
+export function getCall(playerId: string): Call | undefined {
+  return calls.get(playerId);
+}
+
+/** The other participant of `call`, from `playerId`'s side. */
+export function peerOf(call: Call, playerId: string): string {
+  return call.caller === playerId ? call.callee : call.caller;
+}
+
+/** True if `a` and `b` are in the same call (ringing or connected). */
+export function inCallTogether(a: string, b: string): boolean {
+  const call = calls.get(a);
+  return !!call && peerOf(call, a) === b;
+}
+
+/**
+ * Start ringing. The caller must check both players are free first.
+ * `onMissed` runs if nobody answers within CALL_RING_TIMEOUT_MS —
+ * by then the call has already been ended. Leave it out to track a
+ * call another node started: that node owns the ring timer (and
+ * picked the `id`).
+ */
+export function startCall(id: string, caller: string, callee: string, onMissed?: (call: Call) => void): Call {
+  const call: Call = { id, caller, callee, state: "ringing", ringTimer: null };
+  if (onMissed) {
+    call.ringTimer = setTimeout(() => {
+      call.ringTimer = null;
+      endCall(call);
+      onMissed(call);
+    }, CALL_RING_TIMEOUT_MS);
+  }
+
+  calls.set(caller, call);
+  calls.set(callee, call);
+  return call;
+}
+
+/** The callee picked up: ringing → connected. */
+export function connectCall(call: Call) {
+  if (call.ringTimer) {
+    clearTimeout(call.ringTimer);
+    call.ringTimer = null;
+  }
+  call.state = "connected";
+}
+
+/** Any state → ended. Safe to call twice. */
+export function endCall(call: Call) {
+  if (call.ringTimer) {
+    clearTimeout(call.ringTimer);
+    call.ringTimer = null;
+  }
+  call.state = "ended";
+  if (calls.get(call.caller) === call) calls.delete(call.caller);
+  if (calls.get(call.callee) === call) calls.delete(call.callee);
+}
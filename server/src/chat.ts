@@ -0,0 +1,94 @@
+import { randomUUID } from "crypto";
+import {
+  ChatMessage, ChatSendPayload, ChatRejectedPayload, Player,
+  CHAT_MAX_LENGTH, CHAT_HISTORY_LIMIT, CHAT_PROXIMITY_RADIUS,
+} from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  TEXT CHAT
+//
+//  The socket handler in index.ts decides WHO gets a message; this
+//  module builds the message, checks it, and keeps room history.
+//
+//  History is a bounded list per room (oldest dropped first) and lives
+//  exactly as long as the room does — the same in-memory trade-off as
+//  the rooms Map itself.
+// ─────────────────────────────────────────────────────────────────
+const history = new Map<string, ChatMessage[]>();
+
+/** Recent room-scope messages, oldest first. */
+export function getChatHistory(roomId: string): ChatMessage[] {
+  return history.get(roomId) ?? [];
+}
+
+/** Store a room-scope message, dropping the oldest past the limit. */
+export function recordChat(roomId: string, msg: ChatMessage) {
+  const list = history.get(roomId) ?? [];
+  list.push(msg);
+  if (list.length > CHAT_HISTORY_LIMIT) list.splice(0, list.length - CHAT_HISTORY_LIMIT);
+  history.set(roomId, list);
+}
+
+/** Forget a room's history — call when the room is removed. */
+export function clearChatHistory(roomId: string) {
+  history.delete(roomId);
+}
+
+// profile.ts's CONTROL_CHARS minus \t and \n, which a message may
+// contain; stripped rather than refused
+const CHAT_CONTROL_CHARS = /[\u0000-\u0008\u000b-\u001f\u007f]/g;
+
+/**
+ * Turn a send request into a message, or explain why not.
+ * Resolves who may receive it against `room` (the sender's room).
+ */
+export function buildChatMessage(
+  payload: ChatSendPayload,
+  sender: Player,
+  room: ReadonlyMap<string, Player>,
+): { message: ChatMessage; recipients: string[] | "room" } | ChatRejectedPayload {
+  const text = typeof payload.text === "string"
+    ? payload.text.replace(CHAT_CONTROL_CHARS, "").trim()
+    : "";
+  if (text.length === 0 || text.length > CHAT_MAX_LENGTH) {
+    return {
+      reason: "invalid_message",
+      message: `Messages must be 1–${CHAT_MAX_LENGTH} characters.`,
+    };
+  }
+
+  const message: ChatMessage = {
+    id: randomUUID(),
+    scope: payload.scope,
+    from: sender.id,
+    fromName: sender.name,
+    text,
+    sentAt: Date.now(),
+  };
+
+  switch (payload.scope) {
+    case "room":
+      return { message, recipients: "room" };
+
+    case "proximity": {
+      // Snapshot of who is in earshot right now — sender included so
+      // they see their own message even when nobody is around.
+      const recipients = Array.from(room.values())
+        .filter(p => Math.hypot(p.x - sender.x, p.y - sender.y) <= CHAT_PROXIMITY_RADIUS)
+        .map(p => p.id);
+      return { message, recipients };
+    }
+
+    case "direct": {
+      const target = typeof payload.to === "string" ? room.get(payload.to) : undefined;
+      if (!target || target.id === sender.id) {
+        return { reason: "unknown_recipient", message: "That player isn't in this room." };
+      }
+      message.to = target.id;
+      return { message, recipients: [sender.id, target.id] };
+    }
+
+    default:
+      return { reason: "invalid_message", message: "Unknown chat channel." };
+  }
+}
@@ -0,0 +1,27 @@
+import cluster from "node:cluster";
+import { relayAdapterMessages } from "./adapter";
+import { log } from "./log";
+import { config } from "./config";
+
+// ─────────────────────────────────────────────────────────────────
+//  LOCAL MULTI-NODE
+//
+//  `npm run dev:cluster` — runs CLUSTER_NODES server nodes (default 2)
+//  on one machine, wired together with the IPC adapter instead of
+//  Redis. Node i listens on PORT + i, so point clients (or two Vite
+//  dev servers) at different ports to put players on different nodes
+//  and watch calls, chat and movement cross between them.
+//
+//  Each node is a separate process with its own memory, exactly like
+//  separate machines; the primary only forwards adapter messages.
+// ─────────────────────────────────────────────────────────────────
+if (cluster.isPrimary) {
+  relayAdapterMessages();
+  for (let i = 0; i < config.cluster.nodes; i++) {
+    const port = config.port + i;
+    cluster.fork({ PORT: String(port), CLUSTER_ADAPTER: "ipc" })
+      .on("exit", (code) => log.warn("Node exited", { port, code }));
+  }
+} else {
+  void import("./main");
+}
@@ -0,0 +1,413 @@
+import fs from "fs";
+import { KeyObject, createPublicKey } from "crypto";
+import path from "path";
+import {
+  EVENTS, ClientToServerEvents, ROOM_MIN_CAPACITY, ROOM_MAX_CAPACITY, isWalkable,
+} from "@mping/shared";
+import type { LogLevel } from "./log";
+import type { RateLimit } from "./rateLimit";
+import type { AuthOptions } from "./auth";
+
+// ─────────────────────────────────────────────────────────────────
+//  CONFIG
+//
+//  Every setting the server reads, in one typed object. Each comes
+//  from (first match wins):
+//
+//    1. its environment variable
+//    2. the config file — CONFIG_FILE, or mping.config.json in the
+//       working directory if there is one. Nested JSON, same keys as
+//       `Config` below: { "spawn": { "x": 800 }, "corsOrigins": [...] }
+//    3. the default
+//
+//  Everything is checked once, at startup. A bad value stops the
+//  server with a list of every problem, naming the setting and its
+//  environment variable — not a NaN three calls deep an hour later.
+//
+//  Setting               Env var              Default
+//  ────────────────────  ───────────────────  ─────────────────────────
+//  port                  PORT                 3001
+//  corsOrigins           CORS_ORIGINS         any origin in dev; required
+//                        (or CLIENT_URL)      in production
+//  rootCa.serve          SERVE_ROOT_CA        true in dev, false in production
+//  rootCa.path           ROOT_CA_PATH         <repo>/rootCA.pem
+//  spawn.x / .y          SPAWN_X / SPAWN_Y    800 / 600 (world centre)
+//  spawn.spread          SPAWN_SPREAD         160
+//  colors                PLAYER_COLORS        8-colour palette
+//  rooms.defaultMaxPlayers ROOM_DEFAULT_MAX_PLAYERS  none (unlimited)
+//  rooms.maxInvites      ROOM_MAX_INVITES     50
+//  limits.moveSpeedTolerance  MOVE_SPEED_TOLERANCE  1.25
+//  limits.moveBudgetCapMs     MOVE_BUDGET_CAP_MS    500
+//  limits.events         RATE_LIMITS          DEFAULT_RATE_LIMITS below; set only
+//                                             the events to change, e.g.
+//                                             "call:request=0.05/2" (per second/burst)
+//  limits.floodMaxDrops  FLOOD_MAX_DROPS      100 rate-limited events…
+//  limits.floodWindowMs  FLOOD_WINDOW_MS      …within 10000 ms disconnects the socket
+//  calls.radius          CALL_RADIUS          0 (anywhere in the room)
+//  ice.stunUrls          STUN_URLS            Google's public STUN servers
+//  ice.turnUrls          TURN_URLS            none (no relay)
+//  ice.turnSecret        TURN_SECRET          none; required with TURN_URLS
+//  ice.turnTtlSeconds    TURN_TTL_SECONDS     86400 (a day)
+//  names.blocklist       NAME_BLOCKLIST       none
+//  store.kind / .path    ROOM_STORE / ROOM_STORE_PATH   memory / data/rooms.json
+//  cluster.adapter       CLUSTER_ADAPTER      none
+//  cluster.redisUrl      REDIS_URL            redis://localhost:6379
+//  cluster.nodes         CLUSTER_NODES        2
+//  auth.allowGuests      AUTH_ALLOW_GUESTS    true
+//  auth.secret           AUTH_JWT_SECRET      none — HS256 sign-in tokens
+//  auth.publicKeyPath    AUTH_JWT_PUBLIC_KEY_PATH  none — RS256/ES256 (PEM)
+//  auth.issuer / .audience  AUTH_JWT_ISSUER / AUTH_JWT_AUDIENCE  not checked
+//  admin.token           ADMIN_TOKEN          none (admin API off)
+//  admin.auditLogPath    AUDIT_LOG_PATH       data/audit.log
+//  log.level / .format   LOG_LEVEL / LOG_FORMAT  info / pretty (json in production)
+//  log.scopes            LOG_SCOPES           none
+//
+//  Lists come from the environment comma-separated, and from the file
+//  as JSON arrays. NODE_ENV=production is read from the environment
+//  only.
+//
+//  WHY not dotenv/convict?
+//  Same as schemas.ts: a handful of readers is a page of code.
+// ─────────────────────────────────────────────────────────────────
+
+export type StoreKind = "memory" | "file";
+export type ClusterAdapterKind = "none" | "redis" | "ipc";
+export type LogFormat = "json" | "pretty";
+
+export interface Config {
+  production: boolean;
+  port: number;
+  /** Allowed browser origins. `true` = any (reflect the request's Origin). */
+  corsOrigins: string[] | true;
+  /** The mkcert root CA download, for phones on the LAN. Dev only. */
+  rootCa: { serve: boolean; path: string };
+  /** New players appear within `spread` px (square) of (x, y). */
+  spawn: { x: number; y: number; spread: number };
+  /** Avatar palette, handed out in join order. */
+  colors: string[];
+  rooms: {
+    defaultMaxPlayers: number | null;  // for rooms created without a capacity
+    maxInvites: number;                // kept per room; the oldest go first
+  };
+  limits: {
+    moveSpeedTolerance: number;        // × PLAYER_SPEED a move may cover
+    moveBudgetCapMs: number;           // most idle time a move may spend
+    /** Token buckets per client event — see rateLimit.ts. */
+    events: Record<keyof ClientToServerEvents, RateLimit>;
+    floodMaxDrops: number;
+    floodWindowMs: number;
+  };
+  calls: { radius: number };
+  /** STUN/TURN servers for WebRTC — see ice.ts. */
+  ice: { stunUrls: string[]; turnUrls: string[]; turnSecret: string | null; turnTtlSeconds: number };
+  names: { blocklist: string[] };
+  store: { kind: StoreKind; path: string };
+  cluster: { adapter: ClusterAdapterKind; redisUrl: string; nodes: number };
+  /** Who may connect, and how sign-in tokens are checked — see auth.ts. */
+  auth: AuthOptions;
+  admin: { token: string | null; auditLogPath: string };
+  log: { level: LogLevel; format: LogFormat; scopes: Record<string, LogLevel> };
+}
+
+type Env = Record<string, string | undefined>;
+type FileValues = Record<string, unknown>;
+
+const LOG_LEVELS: LogLevel[] = ["trace", "debug", "info", "warn", "error"];
+
+const DEFAULT_COLORS = [
+  "#FF6B6B", "#4ECDC4", "#45B7D1", "#96CEB4",
+  "#FFEAA7", "#DDA0DD", "#98D8C8", "#F7DC6F",
+];
+
+// Per socket. A client moves every EMIT_INTERVAL_MS (20/s) and trickles
+// ICE candidates in bursts; nobody needs to start a call every few seconds.
+const DEFAULT_RATE_LIMITS: Record<keyof ClientToServerEvents, RateLimit> = {
+  [EVENTS.JOIN_ROOM]:          { perSecond: 1,    burst: 5 },
+  [EVENTS.PLAYER_MOVE]:        { perSecond: 30,   burst: 60 },
+  [EVENTS.UPDATE_PROFILE]:     { perSecond: 0.5,  burst: 5 },
+  [EVENTS.CHAT_SEND]:          { perSecond: 2,    burst: 8 },
+  [EVENTS.INVITE_CREATE]:      { perSecond: 0.2,  burst: 5 },
+  [EVENTS.BLOCK_SET]:          { perSecond: 1,    burst: 10 },
+  [EVENTS.BLOCK_REMOVE]:       { perSecond: 1,    burst: 10 },
+  [EVENTS.CALL_REQUEST]:       { perSecond: 0.1,  burst: 3 },
+  [EVENTS.CALL_ACCEPT]:        { perSecond: 1,    burst: 5 },
+  [EVENTS.CALL_DECLINE]:       { perSecond: 1,    burst: 5 },
+  [EVENTS.CALL_END]:           { perSecond: 1,    burst: 5 },
+  [EVENTS.WEBRTC_OFFER]:       { perSecond: 1,    burst: 10 },
+  [EVENTS.WEBRTC_ANSWER]:      { perSecond: 1,    burst: 10 },
+  [EVENTS.WEBRTC_ICE]:         { perSecond: 20,   burst: 100 },
+  [EVENTS.ICE_CONFIG_REQUEST]: { perSecond: 0.2,  burst: 3 },
+};
+
+const DEFAULT_STUN_URLS = ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isObject = (v: unknown): v is FileValues =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+/** The config file's contents, or {} if there isn't one. */
+function readConfigFile(env: Env, problems: string[]): FileValues {
+  const file = env.CONFIG_FILE ?? (fs.existsSync("mping.config.json") ? "mping.config.json" : undefined);
+  if (!file) return {};
+  try {
+    const values: unknown = JSON.parse(fs.readFileSync(path.resolve(file), "utf8"));
+    if (isObject(values)) return values;
+    problems.push(`${file}: expected a JSON object`);
+  } catch (err) {
+    problems.push(`${file}: ${(err as Error).message}`);
+  }
+  return {};
+}
+
+/** Load and check the config. Throws with every problem found. */
+export function loadConfig(env: Env = process.env, file?: FileValues): Config {
+  const problems: string[] = [];
+  file ??= readConfigFile(env, problems);
+  const known = new Set<string>();
+
+  // ── Readers ────────────────────────────────────────────────────
+  // Each takes the setting's key (path in the file) and env var, and
+  // returns the fallback after noting a problem, so one run reports
+  // everything that's wrong.
+  const raw = (key: string, envVar: string | undefined): unknown => {
+    known.add(key);
+    if (envVar && env[envVar] !== undefined && env[envVar] !== "") return env[envVar];
+    return key.split(".").reduce<unknown>((v, k) => (isObject(v) ? v[k] : undefined), file);
+  };
+  const problem = (key: string, envVar: string | undefined, message: string) => {
+    problems.push(`${key}${envVar ? ` (${envVar})` : ""}: ${message}`);
+  };
+
+  const number = (key: string, envVar: string | undefined, fallback: number,
+    { min = -Infinity, max = Infinity, integer = false } = {}): number => {
+    const value = raw(key, envVar);
+    if (value === undefined) return fallback;
+    const n = typeof value === "string" ? Number(value) : value;
+    if (typeof n !== "number" || !Number.isFinite(n) || (integer && !Number.isInteger(n)) || n < min || n > max) {
+      const range = max === Infinity ? `≥ ${min}` : `${min}–${max}`;
+      problem(key, envVar, `expected ${integer ? "a whole number" : "a number"} ${range}, got ${JSON.stringify(value)}`);
+      return fallback;
+    }
+    return n;
+  };
+
+  const string = (key: string, envVar: string | undefined, fallback: string): string => {
+    const value = raw(key, envVar);
+    if (value === undefined) return fallback;
+    if (typeof value !== "string" || !value) {
+      problem(key, envVar, `expected a non-empty string, got ${JSON.stringify(value)}`);
+      return fallback;
+    }
+    return value;
+  };
+
+  // Unset → null, rather than a default
+  const optionalString = (key: string, envVar: string): string | null =>
+    raw(key, envVar) === undefined ? null : string(key, envVar, "");
+
+  const oneOf = <T extends string>(key: string, envVar: string | undefined, choices: readonly T[], fallback: T): T => {
+    const value = raw(key, envVar);
+    if (value === undefined) return fallback;
+    if (!choices.includes(value as T)) {
+      problem(key, envVar, `expected ${choices.map(c => `"${c}"`).join(" | ")}, got ${JSON.stringify(value)}`);
+      return fallback;
+    }
+    return value as T;
+  };
+
+  const boolean = (key: string, envVar: string | undefined, fallback: boolean): boolean => {
+    const value = raw(key, envVar);
+    if (value === undefined) return fallback;
+    if (value === true || value === "true" || value === "1") return true;
+    if (value === false || value === "false" || value === "0") return false;
+    problem(key, envVar, `expected true or false, got ${JSON.stringify(value)}`);
+    return fallback;
+  };
+
+  const list = (key: string, envVar: string | undefined, fallback: string[] | undefined): string[] | undefined => {
+    const value = raw(key, envVar);
+    if (value === undefined) return fallback;
+    const items = typeof value === "string" ? value.split(",") : value;
+    if (!Array.isArray(items) || !items.every(i => typeof i === "string")) {
+      problem(key, envVar, `expected a list of strings, got ${JSON.stringify(value)}`);
+      return fallback;
+    }
+    return items.map(i => i.trim()).filter(Boolean);
+  };
+
+  // "move=trace,ice=debug" in the environment, { "move": "trace" } in the file
+  const scopes = (key: string, envVar: string): Record<string, LogLevel> => {
+    const value = raw(key, envVar);
+    if (value === undefined) return {};
+    const entries = typeof value === "string"
+      ? value.split(",").filter(e => e.trim()).map(e => e.split("=").map(s => s.trim()))
+      : isObject(value) ? Object.entries(value) : null;
+    const result: Record<string, LogLevel> = {};
+    for (const [scope, level] of entries ?? [[]]) {
+      if (!scope || !LOG_LEVELS.includes(level as LogLevel)) {
+        problem(key, envVar, `expected scope=level pairs (levels: ${LOG_LEVELS.join(", ")}), got ${JSON.stringify(value)}`);
+        return {};
+      }
+      result[scope] = level as LogLevel;
+    }
+    return result;
+  };
+
+  // "call:request=0.1/3,player:move=30/60" in the environment,
+  // { "call:request": { "perSecond": 0.1, "burst": 3 } } in the file.
+  // Merged over the defaults.
+  const rateLimits = (key: string, envVar: string) => {
+    const limits = { ...DEFAULT_RATE_LIMITS };
+    const value = raw(key, envVar);
+    if (value === undefined) return limits;
+    const entries: [string, unknown][] = typeof value === "string"
+      ? value.split(",").filter(e => e.trim()).map(e => {
+        const [event, rate = ""] = e.split("=").map(s => s.trim());
+        const [perSecond, burst] = rate.split("/").map(Number);
+        return [event, { perSecond, burst }];
+      })
+      : isObject(value) ? Object.entries(value) : [["", null]];
+    for (const [event, limit] of entries) {
+      if (!(event in limits)) {
+        problem(key, envVar, `unknown event ${JSON.stringify(event)} — one of ${Object.keys(limits).join(", ")}`);
+        continue;
+      }
+      const { perSecond, burst } = (isObject(limit) ? limit : {}) as Partial<RateLimit>;
+      if (typeof perSecond !== "number" || !(perSecond > 0) || !Number.isInteger(burst) || burst < 1) {
+        problem(key, envVar, `${event}: expected a rate > 0 per second and a whole-number burst ≥ 1`);
+        continue;
+      }
+      limits[event as keyof ClientToServerEvents] = { perSecond, burst };
+    }
+    return limits;
+  };
+
+  // ── Settings ───────────────────────────────────────────────────
+  const production = env.NODE_ENV === "production";
+
+  const origins = list("corsOrigins", "CORS_ORIGINS", undefined) ?? list("corsOrigins", "CLIENT_URL", undefined);
+  if (production && !origins?.length) {
+    problem("corsOrigins", "CORS_ORIGINS", "required in production — the client's URL, e.g. https://mping.example.com");
+  }
+
+  const spawn = {
+    x: number("spawn.x", "SPAWN_X", 800),
+    y: number("spawn.y", "SPAWN_Y", 600),
+    spread: number("spawn.spread", "SPAWN_SPREAD", 160, { min: 0 }),
+  };
+  if (!isWalkable(spawn.x, spawn.y)) {
+    problem("spawn", "SPAWN_X/SPAWN_Y", `(${spawn.x}, ${spawn.y}) isn't walkable ground — players would spawn stuck`);
+  }
+
+  const colors = list("colors", "PLAYER_COLORS", DEFAULT_COLORS)!;
+  if (!colors.length || !colors.every(c => HEX_COLOR.test(c))) {
+    problem("colors", "PLAYER_COLORS", `expected one or more #rrggbb colours, got ${JSON.stringify(colors)}`);
+  }
+
+  const turnUrls = list("ice.turnUrls", "TURN_URLS", [])!;
+  const turnSecret = optionalString("ice.turnSecret", "TURN_SECRET");
+  if (turnUrls.length && !turnSecret) {
+    problem("ice.turnSecret", "TURN_SECRET", "required with TURN_URLS — coturn's static-auth-secret");
+  }
+
+  const publicKeyPath = optionalString("auth.publicKeyPath", "AUTH_JWT_PUBLIC_KEY_PATH");
+  let publicKey: KeyObject | null = null;
+  if (publicKeyPath) {
+    try {
+      publicKey = createPublicKey(fs.readFileSync(path.resolve(publicKeyPath)));
+    } catch (err) {
+      problem("auth.publicKeyPath", "AUTH_JWT_PUBLIC_KEY_PATH", `can't read a public key: ${(err as Error).message}`);
+    }
+  }
+  const auth: AuthOptions = {
+    allowGuests: boolean("auth.allowGuests", "AUTH_ALLOW_GUESTS", true),
+    secret: optionalString("auth.secret", "AUTH_JWT_SECRET"),
+    publicKey,
+    issuer: optionalString("auth.issuer", "AUTH_JWT_ISSUER"),
+    audience: optionalString("auth.audience", "AUTH_JWT_AUDIENCE"),
+  };
+  if (!auth.allowGuests && !auth.secret && !publicKeyPath) {
+    problem("auth.allowGuests", "AUTH_ALLOW_GUESTS", "without guests, set AUTH_JWT_SECRET or AUTH_JWT_PUBLIC_KEY_PATH — nobody could connect");
+  }
+
+  const defaultMaxPlayers = number("rooms.defaultMaxPlayers", "ROOM_DEFAULT_MAX_PLAYERS", 0,
+    { min: ROOM_MIN_CAPACITY, max: ROOM_MAX_CAPACITY, integer: true });
+
+  const config: Config = {
+    production,
+    port: number("port", "PORT", 3001, { min: 0, max: 65535, integer: true }),
+    corsOrigins: origins?.length ? origins : true,
+    rootCa: {
+      serve: boolean("rootCa.serve", "SERVE_ROOT_CA", !production),
+      path: path.resolve(string("rootCa.path", "ROOT_CA_PATH", path.resolve(__dirname, "../../rootCA.pem"))),
+    },
+    spawn,
+    colors,
+    rooms: {
+      defaultMaxPlayers: defaultMaxPlayers || null,
+      maxInvites: number("rooms.maxInvites", "ROOM_MAX_INVITES", 50, { min: 1, integer: true }),
+    },
+    limits: {
+      moveSpeedTolerance: number("limits.moveSpeedTolerance", "MOVE_SPEED_TOLERANCE", 1.25, { min: 1 }),
+      moveBudgetCapMs: number("limits.moveBudgetCapMs", "MOVE_BUDGET_CAP_MS", 500, { min: 1, integer: true }),
+      events: rateLimits("limits.events", "RATE_LIMITS"),
+      floodMaxDrops: number("limits.floodMaxDrops", "FLOOD_MAX_DROPS", 100, { min: 1, integer: true }),
+      floodWindowMs: number("limits.floodWindowMs", "FLOOD_WINDOW_MS", 10_000, { min: 100, integer: true }),
+    },
+    calls: { radius: number("calls.radius", "CALL_RADIUS", 0, { min: 0 }) },
+    ice: {
+      stunUrls: list("ice.stunUrls", "STUN_URLS", DEFAULT_STUN_URLS)!,
+      turnUrls,
+      turnSecret,
+      turnTtlSeconds: number("ice.turnTtlSeconds", "TURN_TTL_SECONDS", 86_400, { min: 60, integer: true }),
+    },
+    names: { blocklist: list("names.blocklist", "NAME_BLOCKLIST", [])!.map(w => w.toLowerCase()) },
+    store: {
+      kind: oneOf("store.kind", "ROOM_STORE", ["memory", "file"] as const, "memory"),
+      path: path.resolve(string("store.path", "ROOM_STORE_PATH", "data/rooms.json")),
+    },
+    cluster: {
+      adapter: oneOf("cluster.adapter", "CLUSTER_ADAPTER", ["none", "redis", "ipc"] as const, "none"),
+      redisUrl: string("cluster.redisUrl", "REDIS_URL", "redis://localhost:6379"),
+      nodes: number("cluster.nodes", "CLUSTER_NODES", 2, { min: 1, integer: true }),
+    },
+    auth,
+    admin: {
+      token: optionalString("admin.token", "ADMIN_TOKEN"),
+      auditLogPath: path.resolve(string("admin.auditLogPath", "AUDIT_LOG_PATH", "data/audit.log")),
+    },
+    log: {
+      level: oneOf("log.level", "LOG_LEVEL", LOG_LEVELS, "info"),
+      format: oneOf("log.format", "LOG_FORMAT", ["json", "pretty"] as const, production ? "json" : "pretty"),
+      scopes: scopes("log.scopes", "LOG_SCOPES"),
+    },
+  };
+
+  // A typo in the file would otherwise be silently ignored
+  const checkKeys = (values: FileValues, prefix: string) => {
+    for (const [k, v] of Object.entries(values)) {
+      const key = prefix + k;
+      if (known.has(key)) continue;
+      if (isObject(v) && Array.from(known).some(n => n.startsWith(key + "."))) checkKeys(v, key + ".");
+      else problems.push(`${key}: unknown setting in the config file`);
+    }
+  };
+  checkKeys(file, "");
+
+  if (problems.length) {
+    throw new Error(`Invalid configuration:\n${problems.map(p => `  • ${p}`).join("\n")}`);
+  }
+  return config;
+}
+
+// Loaded on first import, so a bad config stops the server before it
+// listens. The message already says what to fix — no stack trace.
+export const config: Config = (() => {
+  try {
+    return loadConfig();
+  } catch (err) {
+    process.stderr.write(`${(err as Error).message}\n`);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,150 @@
+import fs from "fs";
+import path from "path";
+import { BlockEntry } from "@mping/shared";
+import { RoomStore, StoredRoom, StoredSession, createMemoryRoomStore } from "./roomStore";
+import { Ban } from "./moderation";
+import { log } from "./log";
+
+// ─────────────────────────────────────────────────────────────────
+//  FILE ROOM STORE
+//
+//  The memory store, plus a JSON snapshot on disk. Reads never touch
+//  the disk; writes mark the store dirty and the whole state is saved
+//  at most once every SAVE_DELAY_MS.
+//
+//  WHY the whole file every time?
+//  A few hundred players is a few tens of KB of JSON — cheaper than
+//  any incremental format we'd have to maintain. Writing to a temp
+//  file and renaming it over the old one means a crash mid-write
+//  leaves the previous snapshot intact, never half a file.
+// ─────────────────────────────────────────────────────────────────
+const SAVE_DELAY_MS = 1000;
+const FILE_VERSION  = 1;
+
+interface StoreFile {
+  version: number;
+  rooms: Record<string, StoredRoom>;
+  sessions: StoredSession[];
+  bans: Ban[];
+  blocks: Record<string, BlockEntry[]>;
+}
+
+export function createFileRoomStore(filePath: string): RoomStore {
+  const memory = createMemoryRoomStore();
+  const sessions = new Map<string, StoredSession>();
+
+  // ── Load ─────────────────────────────────────────────────────
+  if (fs.existsSync(filePath)) {
+    const saved: StoreFile = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    if (saved.version !== FILE_VERSION) {
+      throw new Error(`${filePath}: unsupported store version ${saved.version}`);
+    }
+    for (const [roomId, { settings, players, access }] of Object.entries(saved.rooms)) {
+      memory.getOrCreateRoom(roomId, settings);
+      for (const p of players) memory.addPlayer(roomId, p);
+      if (access) memory.setRoomAccess(roomId, access);
+    }
+    for (const s of saved.sessions) sessions.set(s.token, s);
+    for (const ban of saved.bans) memory.saveBan(ban);
+    for (const [blockerId, entries] of Object.entries(saved.blocks)) memory.saveBlocks(blockerId, entries);
+    log.info("Restored room store", {
+      sessions: sessions.size, rooms: memory.listRooms().length, bans: saved.bans.length,
+      blockLists: Object.keys(saved.blocks).length, path: filePath,
+    });
+  }
+
+  // ── Save ─────────────────────────────────────────────────────
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  const save = () => {
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    const file: StoreFile = {
+      version: FILE_VERSION,
+      rooms: {},
+      sessions: Array.from(sessions.values()),
+      bans: memory.listBans(),
+      blocks: memory.listBlocks(),
+    };
+    for (const { roomId, settings } of memory.listRooms()) {
+      file.rooms[roomId] = {
+        settings,
+        players: Array.from(memory.getRoom(roomId)!.values()),
+        access: memory.getRoomAccess(roomId),
+      };
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(file));
+    fs.renameSync(tmp, filePath);
+  };
+
+  const scheduleSave = () => {
+    if (!saveTimer) saveTimer = setTimeout(save, SAVE_DELAY_MS);
+  };
+
+  return {
+    ...memory,
+
+    getOrCreateRoom(roomId, settings) {
+      if (!memory.getRoom(roomId)) scheduleSave();
+      return memory.getOrCreateRoom(roomId, settings);
+    },
+
+    addPlayer(roomId, player) {
+      memory.addPlayer(roomId, player);
+      scheduleSave();
+    },
+
+    updatePlayer(roomId, playerId, changes) {
+      const player = memory.updatePlayer(roomId, playerId, changes);
+      if (player) scheduleSave();
+      return player;
+    },
+
+    removePlayer(roomId, playerId) {
+      const emptied = memory.removePlayer(roomId, playerId);
+      scheduleSave();
+      return emptied;
+    },
+
+    setRoomAccess(roomId, access) {
+      memory.setRoomAccess(roomId, access);
+      scheduleSave();
+    },
+
+    getSession: (token) => sessions.get(token),
+
+    saveSession(session) {
+      sessions.set(session.token, { ...session });
+      scheduleSave();
+    },
+
+    deleteSession(token) {
+      if (sessions.delete(token)) scheduleSave();
+    },
+
+    listSessions: () => Array.from(sessions.values()),
+
+    saveBan(ban) {
+      memory.saveBan(ban);
+      scheduleSave();
+    },
+
+    deleteBan(playerId) {
+      memory.deleteBan(playerId);
+      scheduleSave();
+    },
+
+    saveBlocks(blockerId, entries) {
+      memory.saveBlocks(blockerId, entries);
+      scheduleSave();
+    },
+
+    flush() {
+      if (saveTimer) save();
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { createHmac } from "crypto";
+import { IceConfigPayload } from "@mping/shared";
+import { config } from "./config";
+
+// ─────────────────────────────────────────────────────────────────
+//  ICE SERVERS
+//
+//  What each client gives its RTCPeerConnection, sent on request
+//  (ICE_CONFIG_REQUEST → ICE_CONFIG):
+//
+//    • STUN (STUN_URLS) — free, no credentials. Enough for most NATs.
+//    • TURN (TURN_URLS) — relays the audio when no direct path exists
+//      (symmetric NAT, strict firewalls). Optional.
+//
+//  TURN credentials follow coturn's REST API convention, so coturn
+//  checks them itself with no call back to us (`use-auth-secret` and
+//  `static-auth-secret=<TURN_SECRET>` in turnserver.conf):
+//
+//    username   = "<unix expiry seconds>:<player ID>"
+//    credential = base64(HMAC-SHA1(TURN_SECRET, username))
+//
+//  WHY over the socket and not a REST endpoint?
+//  Only players connected to us should get relay credentials — a
+//  public endpoint would hand our TURN bandwidth to anyone who asked.
+// ─────────────────────────────────────────────────────────────────
+
+/** Time-limited TURN credentials for `userId`, valid for `ttlSeconds`. */
+export function turnCredentials(secret: string, userId: string, ttlSeconds: number, now = Date.now()) {
+  const expiresAt = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiresAt}:${userId}`;
+  const credential = createHmac("sha1", secret).update(username).digest("base64");
+  return { username, credential, expiresAt: expiresAt * 1000 };
+}
+
+/** The ICE servers for `playerId`, TURN credentials included. */
+export function iceConfigFor(playerId: string, now = Date.now()): IceConfigPayload {
+  const { stunUrls, turnUrls, turnSecret, turnTtlSeconds } = config.ice;
+  const iceServers: RTCIceServer[] = stunUrls.length ? [{ urls: stunUrls }] : [];
+
+  if (!turnUrls.length || !turnSecret) return { iceServers, expiresAt: null };
+
+  const { username, credential, expiresAt } = turnCredentials(turnSecret, playerId, turnTtlSeconds, now);
+  iceServers.push({ urls: turnUrls, username, credential });
+  return { iceServers, expiresAt };
+}
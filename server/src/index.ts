@@ -1,14 +1,37 @@
 import express from "express";
+import { AddressInfo } from "net";
 import { createServer } from "http";
 import { Server } from "socket.io";
 import cors from "cors";
-import path from "path";
 import fs from "fs";
+import os from "os";
+import { randomBytes, randomUUID } from "crypto";
 import {
-  EVENTS, Player, MovePayload,
-  CallRequestPayload, CallResponsePayload,
-  WebRtcSdpPayload, WebRtcIcePayload,
+  EVENTS, Player, PlayerProfile, RoomInfo, RoomDetails, RoomSettings, RemovedPayload, JoinRejectedPayload, AuthErrorData,
+  ClientToServerEvents, ServerToClientEvents, SignalingEvent, SignalRejectReason, CallEndReason,
+  RECONNECT_GRACE_MS, PLAYER_SPEED, TICK_INTERVAL_MS, clampToWorld, isWalkable,
 } from "@mping/shared";
+import { validateProfile } from "./profile";
+import { validateRoomSettings } from "./roomSettings";
+import { RoomAccess, admit, createInvite, hashPassword } from "./roomAccess";
+import { buildChatMessage, recordChat, getChatHistory, clearChatHistory } from "./chat";
+import { isValidPayload, PayloadOf } from "./schemas";
+import { checkRelay } from "./signaling";
+import { iceConfigFor } from "./ice";
+import { createRateLimiter } from "./rateLimit";
+import { Identity, authenticate } from "./auth";
+import { Call, getCall, peerOf, inCallTogether, startCall, connectCall, endCall } from "./calls";
+import { updateInterest, removeFromInterest, getWatchers } from "./interest";
+import { getBlocks, setBlocks, block, unblock, forgetBlocks, hasBlocked, isHiddenFrom } from "./blocks";
+import { markMoved, forgetMoved, takeMoved, buildSnapshots, markAcked, takeAcks } from "./snapshots";
+import { RoomStore, RoomSummary, createRoomStore } from "./roomStore";
+import { createReplicatedRoomStore } from "./replicatedRoomStore";
+import { CLUSTER_ADAPTER, InterServerEvents, StoreOp, attachAdapter, isClustered } from "./adapter";
+import { AdminActions, createAdminRouter } from "./admin";
+import { Ban, addBan, liftBan, listBans, findBan, findBanByToken } from "./moderation";
+import { counter, gauge, histogram, renderMetrics, Sample, METRICS_CONTENT_TYPE } from "./metrics";
+import { Logger, log } from "./log";
+import { config } from "./config";
 
 // ─────────────────────────────────────────────────────────────────
 //  SERVER SETUP
@@ -22,12 +45,14 @@ const httpServer = createServer(app);
 
 // Allow any origin in dev — the Vite proxy proxies requests from the phone
 // through Vite's dev server, so the origin may be a LAN IP over HTTPS.
-// In production this would be your real domain only.
-const CORS_ORIGIN = process.env.NODE_ENV === "production"
-  ? process.env.CLIENT_URL ?? "https://your-app.vercel.app"
-  : true; // true = reflect the request's Origin header back, allowing everything in dev
+// In production CORS_ORIGINS must list the client's real domain(s);
+// config.ts refuses to start without it.
+const CORS_ORIGIN = config.corsOrigins; // true = reflect the request's Origin header back
 
-const io = new Server(httpServer, {
+// Typed with the shared event maps: a wrong event name or payload shape
+// anywhere in this file is a compile error.
+// `socket.data` holds who the socket is — see AUTHENTICATION below.
+const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, Identity>(httpServer, {
   cors: {
     origin: CORS_ORIGIN,
     methods: ["GET", "POST"],
@@ -43,205 +68,1279 @@ app.get("/health", (_req, res) => {
   res.json({ status: "ok", uptime: process.uptime() });
 });
 
-// Temporary: serve the mkcert root CA so phones on the LAN can download
-// and install it to trust the dev HTTPS cert. Remove before deploying.
-const caPath = path.resolve(__dirname, "../../rootCA.pem");
-if (fs.existsSync(caPath)) {
+// Room directory — what the lobby's room browser lists. Busiest first.
+// Private rooms aren't listed, and look exactly like missing ones.
+const roomInfo = ({ roomId, playerCount, settings }: RoomSummary): RoomInfo =>
+  ({ id: roomId, ...settings, playerCount });
+
+app.get("/rooms", (_req, res) => {
+  const rooms = store.listRooms()
+    .filter(r => !r.settings.private)
+    .map(roomInfo)
+    .sort((a, b) => b.playerCount - a.playerCount || a.id.localeCompare(b.id));
+  res.json(rooms);
+});
+
+app.get("/rooms/:roomId", (req, res) => {
+  const { roomId } = req.params;
+  const room = store.getRoom(roomId);
+  const settings = store.getRoomSettings(roomId);
+  if (!room || settings.private) {
+    res.status(404).json({ error: "No such room." });
+    return;
+  }
+  const details: RoomDetails = {
+    ...roomInfo({ roomId, playerCount: room.size, settings }),
+    players: Array.from(room.values(), ({ name, status }) => ({ name, status })),
+  };
+  res.json(details);
+});
+
+// Dev only: serve the mkcert root CA so phones on the LAN can download
+// and install it to trust the dev HTTPS cert. Off in production unless
+// SERVE_ROOT_CA says otherwise (see config.ts).
+const caPath = config.rootCa.path;
+if (config.rootCa.serve && fs.existsSync(caPath)) {
   app.get("/rootCA.pem", (_req, res) => {
     res.setHeader("Content-Type", "application/x-pem-file");
     res.setHeader("Content-Disposition", "attachment; filename=rootCA.pem");
     res.sendFile(caPath);
   });
-  console.log("   CA cert: http://10.243.81.34:3001/rootCA.pem\n");
+  // The addresses a phone on the same network could reach us at
+  const lanUrls = Object.values(os.networkInterfaces()).flat()
+    .filter(a => a && a.family === "IPv4" && !a.internal)
+    .map(a => `http://${a.address}:${config.port}/rootCA.pem`);
+  log.info("Serving the dev root CA", { urls: lanUrls });
 }
 
 // ─────────────────────────────────────────────────────────────────
-//  IN-MEMORY ROOM STATE
+//  ROOM STATE
+//
+//  Rooms and players live in a RoomStore — in memory by default, or
+//  persisted to disk with ROOM_STORE=file (see roomStore.ts).
+//  Rooms read from it are read-only: every change goes through
+//  store.addPlayer / updatePlayer / removePlayer so a persistent
+//  backend sees it.
 //
-//  For Phase 1 we store everything in memory.
-//  PRO: Zero setup, instant, no DB needed.
-//  CON: State is lost on server restart, can't scale to multiple servers.
-//  We'll move this to a DB in a later phase when we need persistence.
+//  With several nodes (CLUSTER_ADAPTER, see adapter.ts) the store is
+//  wrapped so every node keeps a full copy, in step with the others.
 //
 //  Structure: { roomId → { playerId → Player } }
 // ─────────────────────────────────────────────────────────────────
-const rooms = new Map<string, Map<string, Player>>();
+const replicated = isClustered ? createReplicatedRoomStore(createRoomStore(), io, onPeerStoreOp) : null;
+const store: RoomStore = replicated ?? createRoomStore();
 
-/** Returns the player map for a room, creating it if it doesn't exist. */
-function getOrCreateRoom(roomId: string): Map<string, Player> {
-  if (!rooms.has(roomId)) {
-    rooms.set(roomId, new Map());
-  }
-  return rooms.get(roomId)!;
+/** Send a change to every other node. A no-op on a single node. */
+function tellPeers<E extends keyof InterServerEvents>(event: E, ...args: Parameters<InterServerEvents[E]>) {
+  if (isClustered) io.serverSideEmit(event, ...args);
 }
 
-/** Assign a deterministic color from a small palette based on player count. */
-const COLORS = [
-  "#FF6B6B", "#4ECDC4", "#45B7D1", "#96CEB4",
-  "#FFEAA7", "#DDA0DD", "#98D8C8", "#F7DC6F",
-];
+// ─────────────────────────────────────────────────────────────────
+//  METRICS
+//
+//  GET /metrics, for Prometheus (see metrics.ts). Counted in the
+//  handlers below as things happen; the gauges are read at scrape time.
+//
+//  Sockets are this node's own. Rooms and players are the whole
+//  cluster's — every node has a full copy (see adapter.ts), so graph
+//  those with max(), not sum().
+//
+//  Private rooms are only counted in the totals: a per-room series
+//  would publish their names.
+// ─────────────────────────────────────────────────────────────────
+const eventsReceived = counter("mping_events_received_total", "Client events received, by event.");
+const payloadsDropped = counter("mping_payloads_dropped_total", "Client events dropped for a malformed payload, by event.");
+const rateLimited = counter("mping_rate_limited_total", "Client events dropped by a rate limit, by event.");
+const floodDisconnects = counter("mping_flood_disconnects_total", "Sockets disconnected for flooding.");
+const rejections = counter("mping_rejections_total", "Well-formed client events refused, by event and reason.");
+const callEvents = counter("mping_calls_total", "Call events: request, accept, decline, busy, timeout.");
+const relayLatency = histogram(
+  "mping_signaling_relay_seconds",
+  "Time from receiving a signaling event to handing it on for delivery, by event.",
+  [0.0001, 0.00025, 0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1],
+);
+
+gauge("mping_sockets_connected", "Sockets connected to this node.", () => [{ value: io.of("/").sockets.size }]);
+
+const byVisibility = (count: (r: RoomSummary) => number): Sample[] => {
+  const totals = { public: 0, private: 0 };
+  for (const r of store.listRooms()) totals[r.settings.private ? "private" : "public"] += count(r);
+  return Object.entries(totals).map(([visibility, value]) => ({ labels: { visibility }, value }));
+};
+gauge("mping_rooms", "Rooms with anyone in them, by visibility.", () => byVisibility(() => 1));
+gauge("mping_players", "Players in rooms (reconnecting ones included), by visibility.", () => byVisibility(r => r.playerCount));
+gauge("mping_room_players", "Players per public room.", () => store.listRooms()
+  .filter(r => !r.settings.private)
+  .map(r => ({ labels: { room: r.roomId }, value: r.playerCount })));
+
+app.get("/metrics", (_req, res) => {
+  res.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+});
+
+/** Assign a deterministic color from the palette (config.colors) based on player count. */
 function pickColor(index: number): string {
-  return COLORS[index % COLORS.length];
+  return config.colors[index % config.colors.length];
+}
+
+/** A spawn coordinate: `centre` give or take half of config.spawn.spread. */
+const spawnAt = (centre: number) => centre + (Math.random() - 0.5) * config.spawn.spread;
+
+// ─────────────────────────────────────────────────────────────────
+//  MOVEMENT VALIDATION
+//
+//  Tolerance covers frame-timing jitter between the client's physics
+//  step and its emit loop. The cap stops an idle player from banking
+//  several seconds of movement and then teleporting. Both are in the
+//  config (`limits`).
+// ─────────────────────────────────────────────────────────────────
+const MOVE_SPEED_TOLERANCE = config.limits.moveSpeedTolerance;
+const MOVE_BUDGET_CAP_MS   = config.limits.moveBudgetCapMs;
+const MAX_MOVE_BUDGET      = PLAYER_SPEED * MOVE_SPEED_TOLERANCE * (MOVE_BUDGET_CAP_MS / 1000);
+
+// ─────────────────────────────────────────────────────────────────
+//  SESSIONS
+//
+//  A session ties a stable player ID to whichever socket currently
+//  carries it. Socket IDs change on every reconnect; player IDs don't.
+//
+//  When a socket drops unexpectedly (Wi-Fi blip, phone sleeps) we keep
+//  the Player in its room for RECONNECT_GRACE_MS and tell everyone it's
+//  "reconnecting". If the same token comes back in the handshake in
+//  time, the new socket takes over the same Player — same position,
+//  same color, and any call keeps routing because peers address it by
+//  player ID.
+//
+//  Every socket joins a Socket.IO room named after its player ID, so
+//  `socket.to(playerId)` reaches the player whatever socket they're on.
+//
+//  A signed-in player's ID is their user ID (auth.ts), so a session
+//  token only resumes a session that belongs to them, and a new
+//  connection without one takes over the session they already have.
+//  A guest's ID is whatever their session was given, so anything kept
+//  by player ID for a guest (their blocks) goes when the session does.
+// ─────────────────────────────────────────────────────────────────
+interface Session {
+  token: string;
+  playerId: string;
+  roomId: string | null;          // Room the player is currently in
+  socketId: string | null;        // null while disconnected
+  graceTimer: NodeJS.Timeout | null;
+  guest: boolean;                 // no signed-in user behind it
+}
+
+const sessions = new Map<string, Session>();
+
+/**
+ * Disconnect a socket whose session another socket just took over,
+ * telling it why — without REMOVED the client takes a server
+ * disconnect for a kick and drops to the lobby with no message.
+ */
+function disconnectTakenOver(socketId: string) {
+  const stale = io.sockets.sockets.get(socketId);
+  if (!stale) return;
+  stale.emit(EVENTS.REMOVED, {
+    reason: "signed_in_elsewhere",
+    message: "You're playing in another tab or on another device, so you were signed out here.",
+  });
+  stale.disconnect(true);
+}
+
+/**
+ * Resume the session for `token`, or start a new one. `userId` is the
+ * signed-in user (null for a guest).
+ * If the old socket is somehow still attached (the server hasn't
+ * noticed the drop yet), the new socket takes over and the old one is
+ * disconnected — the client only reconnects when its old link is dead.
+ */
+function resumeOrCreateSession(
+  token: unknown, socketId: string, userId: string | null,
+): { session: Session; resumed: boolean } {
+  const ours = <S extends { playerId: string }>(s: S | undefined) => s && (!userId || s.playerId === userId) ? s : undefined;
+  let existing = typeof token === "string" ? ours(sessions.get(token)) : undefined;
+
+  // Last connected to another node — pick the session up from the store
+  const stored = !existing && typeof token === "string" ? ours(store.getSession(token)) : undefined;
+  if (stored) {
+    existing = { ...stored, socketId: null, graceTimer: null, guest: !userId };
+    sessions.set(stored.token, existing);
+  }
+
+  // Signed in on a new tab or device — same player, same session
+  if (!existing && userId) {
+    existing = Array.from(sessions.values()).find(s => s.playerId === userId);
+  }
+
+  if (existing) {
+    if (existing.graceTimer) {
+      clearTimeout(existing.graceTimer);
+      existing.graceTimer = null;
+    }
+    const staleSocketId = existing.socketId;
+    existing.socketId = socketId;
+    if (staleSocketId) disconnectTakenOver(staleSocketId);
+    tellPeers("session:resumed", existing.token, socketId);
+    return { session: existing, resumed: true };
+  }
+
+  // A banned guest keeps their ID (and so their ban) — see moderation.ts.
+  // A signed-in user's ban is on their user ID already.
+  const banned = !userId && typeof token === "string" ? findBanByToken(token) : undefined;
+  const session: Session = {
+    token: banned ? banned.token : randomBytes(24).toString("base64url"),
+    playerId: userId ?? (banned ? banned.playerId : randomUUID()),
+    roomId: null,
+    socketId,
+    graceTimer: null,
+    guest: !userId,
+  };
+  sessions.set(session.token, session);
+  return { session, resumed: false };
+}
+
+/** Take a session's player out of its room and tell everyone left behind. */
+function removeFromRoom(session: Session) {
+  const roomId = session.roomId;
+  if (!roomId) return;
+  session.roomId = null;
+
+  // Leaving the room (or the server) ends any call with someone in it
+  hangUp(session.playerId, "hung_up");
+
+  if (!store.getRoom(roomId)) return;
+
+  const emptied = store.removePlayer(roomId, session.playerId);
+  removeFromInterest(roomId, session.playerId);
+  forgetMoved(roomId, session.playerId);
+
+  // The store drops empty rooms; drop their chat too
+  if (emptied) {
+    clearChatHistory(roomId);
+    log.info("Room empty, removed", { roomId });
+  }
+
+  // Tell remaining players someone left
+  io.to(roomId).emit(EVENTS.PLAYER_LEFT, session.playerId);
+}
+
+/**
+ * Keep a session's player in its room, marked "reconnecting", for
+ * RECONNECT_GRACE_MS. If no socket resumes the session by then, the
+ * player is removed for good.
+ */
+function holdForReconnect(session: Session) {
+  const { playerId, roomId } = session;
+  if (!roomId) return;
+  store.updatePlayer(roomId, playerId, { reconnecting: true });
+  io.to(roomId).emit(EVENTS.PLAYER_RECONNECTING, playerId);
+
+  session.graceTimer = setTimeout(() => {
+    session.graceTimer = null;
+    log.info("Player did not reconnect in time, removing", { playerId, roomId });
+    endSession(session);
+  }, RECONNECT_GRACE_MS);
+}
+
+/** Remove the session's player and forget the session. */
+function endSession(session: Session) {
+  removeFromRoom(session);
+  sessions.delete(session.token);
+  store.deleteSession(session.token);
+  if (session.guest) {
+    forgetBlocks(session.playerId);
+    tellPeers("blocks:set", session.playerId, []);
+  }
+}
+
+/** End `call` here and on every other node. */
+function endCallEverywhere(call: Call) {
+  endCall(call);
+  tellPeers("call:end", call.caller, call.callee);
+}
+
+/** End `playerId`'s call, if any, and tell the other side why. */
+function hangUp(playerId: string, reason: CallEndReason) {
+  const call = getCall(playerId);
+  if (!call) return;
+  log.info("Call ended", { callId: call.id, playerId, state: call.state, reason });
+  endCallEverywhere(call);
+  const peerId = peerOf(call, playerId);
+  io.to(peerId).emit(EVENTS.CALL_END, { from: playerId, to: peerId, reason });
 }
 
 // ─────────────────────────────────────────────────────────────────
 //  SOCKET.IO EVENT HANDLING
 // ─────────────────────────────────────────────────────────────────
+type WebRtcEvent = typeof EVENTS.WEBRTC_OFFER | typeof EVENTS.WEBRTC_ANSWER | typeof EVENTS.WEBRTC_ICE;
+
+// ── AUTHENTICATION ────────────────────────────────────────────
+// Runs once per connection, before "connection" fires: a signed token
+// or a guest (see auth.ts). Refused connections get a connect_error
+// with AuthErrorData and never reach a handler.
+io.use((socket, next) => {
+  const result = authenticate(socket.handshake.auth, config.auth);
+  if ("reason" in result) {
+    rejections.inc({ event: "connect", reason: result.reason });
+    log.info("Connection refused", { reason: result.reason, address: socket.handshake.address });
+    next(Object.assign(new Error(result.message), { data: result satisfies AuthErrorData }));
+    return;
+  }
+  socket.data = { ...result.identity };
+  next();
+});
+
 io.on("connection", (socket) => {
-  console.log(`[+] Player connected: ${socket.id}`);
+  const { session, resumed } = resumeOrCreateSession(socket.handshake.auth?.sessionToken, socket.id, socket.data.userId);
+  const playerId = session.playerId;
+  // From here on a guest has an ID too
+  socket.data.userId = playerId;
+  const socketLog = log.child({ socketId: socket.id, playerId });
+  socketLog.info("Player connected", { resumed, guest: socket.data.guest });
+
+  socket.join(playerId);
+  socket.emit(EVENTS.SESSION, { token: session.token, playerId });
+  socket.emit(EVENTS.BLOCK_LIST, getBlocks(playerId));
+
+  // Back within the grace period — re-attach the held Player so others
+  // see them return straight away, before the client's JOIN_ROOM lands.
+  if (resumed && session.roomId) {
+    const player = store.updatePlayer(session.roomId, playerId, { reconnecting: false });
+    if (player) {
+      socket.join(session.roomId);
+      socket.to(session.roomId).emit(EVENTS.PLAYER_RECONNECTED, playerId);
+    }
+  }
+
+  // Register a client event handler behind its rate limit and runtime
+  // schema. Events over the limit (see rateLimit.ts) and payloads that
+  // don't match (wrong types, oversized SDP, missing `to`, …) are
+  // dropped here and never reach the handler. See schemas.ts.
+  // The listener is registered untyped on purpose: until the schema
+  // passes, the payload is `unknown`, whatever the event map says.
+  // `receivedAt` is when the current event arrived and `eventLog` logs
+  // with its name and the sender's room — handlers are synchronous, so
+  // both are theirs for as long as they run.
+  const untyped = socket as unknown as { on(event: string, listener: (payload: unknown) => void): void };
+  let receivedAt = 0n;
+  let eventLog: Logger = socketLog;
+  const limiter = createRateLimiter(config.limits.events, {
+    maxDrops: config.limits.floodMaxDrops,
+    windowMs: config.limits.floodWindowMs,
+  });
+  let flooded = false;
+  const on = <E extends keyof ClientToServerEvents>(event: E, handler: (payload: PayloadOf<E>) => void) => {
+    untyped.on(event, (payload) => {
+      if (flooded) return;
+      receivedAt = process.hrtime.bigint();
+      eventLog = socketLog.child({ event, roomId: session.roomId ?? undefined });
+      eventsReceived.inc({ event });
+
+      const rate = limiter.take(event);
+      if (rate !== "ok") {
+        rateLimited.inc({ event });
+        eventLog.debug("Rate limited");
+        if (rate === "flooding") disconnectFlooder();
+        return;
+      }
+      if (!isValidPayload(event, payload)) {
+        payloadsDropped.inc({ event });
+        eventLog.warn("Dropped malformed payload");
+        return;
+      }
+      handler(payload);
+    });
+  };
+
+  // Still over the limits after a window's worth of drops — not lag,
+  // abuse. The client shows the message and doesn't reconnect.
+  const disconnectFlooder = () => {
+    flooded = true;
+    floodDisconnects.inc();
+    eventLog.warn("Disconnected for flooding");
+    socket.emit(EVENTS.REMOVED, {
+      reason: "rate_limited",
+      message: "You were disconnected for sending too much too fast.",
+    });
+    socket.disconnect(true);
+  };
 
-  let currentRoomId: string | null = null;
+  // Movement validation state (see PLAYER MOVE below)
+  let lastMoveAt = Date.now();
+  let moveBudget = 0;
 
   // ── JOIN ROOM ─────────────────────────────────────────────────
-  socket.on(EVENTS.JOIN_ROOM, (roomId: string) => {
-    currentRoomId = roomId;
-    const room = getOrCreateRoom(roomId);
-
-    // Guard: if this socket is already tracked in the room (e.g. hot-reload
-    // or any double-emit), preserve their position and color and do NOT
-    // broadcast PLAYER_JOINED to others — they already know this player.
-    // Without this, every extra JOIN_ROOM causes everyone else's count
-    // to increment and duplicates to appear.
-    const isRejoin = room.has(socket.id);
-    const existing = room.get(socket.id);
-
-    // Spawn near the world centre (800, 600) with a small random spread.
+  const rejectJoin = (rejection: JoinRejectedPayload) => {
+    rejections.inc({ event: EVENTS.JOIN_ROOM, reason: rejection.reason });
+    eventLog.info("Join rejected", { reason: rejection.reason });
+    socket.emit(EVENTS.JOIN_REJECTED, rejection);
+  };
+
+  on(EVENTS.JOIN_ROOM, ({ roomId, create, password, invite, ...requested }) => {
+    const ban = findBan(playerId, socket.handshake.address);
+    if (ban) {
+      const until = ban.expiresAt
+        ? ` for another ${Math.ceil((ban.expiresAt - Date.now()) / 60_000)} min`
+        : "";
+      rejectJoin({
+        reason: "banned",
+        message: `You're banned from this server${until}.${ban.reason ? ` Reason: ${ban.reason}` : ""}`,
+      });
+      return;
+    }
+
+    // Guard: if this player is already tracked in the room (reconnect,
+    // hot-reload or any double-emit), preserve their position, color and
+    // profile and do NOT broadcast PLAYER_JOINED to others — they already
+    // know this player. Without this, every extra JOIN_ROOM causes
+    // everyone else's count to increment and duplicates to appear.
+    const isRejoin = session.roomId === roomId && !!store.getRoom(roomId)?.has(playerId);
+    const existing = isRejoin ? store.getRoom(roomId)!.get(playerId) : undefined;
+
+    // New to this room — the name has to pass before we touch any state
+    let profile: PlayerProfile | undefined = existing && { name: existing.name, status: existing.status };
+    if (!profile) {
+      const others = store.getRoom(roomId)?.values() ?? [];
+      // Signed in with a name and sent none — go by the token's
+      const name = requested.name.trim() ? requested.name : socket.data.name ?? requested.name;
+      const result = validateProfile({ ...requested, name }, others);
+      if ("reason" in result) {
+        rejectJoin({
+          reason: result.reason,
+          message: result.message,
+        });
+        return;
+      }
+      profile = result.profile;
+    }
+
+    // A brand-new room takes the creator's settings (and password, if
+    // private); an existing one keeps its own, may be full, and may
+    // want credentials — see roomAccess.ts
+    let settings: RoomSettings | undefined;
+    let access: RoomAccess | undefined;
+    const current = store.getRoom(roomId);
+    if (!current && invite !== undefined) {
+      // The room an invite was for emptied and closed, invites and all
+      rejectJoin({
+        reason: "invalid_invite",
+        message: "That invite link has expired — the room has closed.",
+      });
+      return;
+    }
+    if (!current && create) {
+      const result = validateRoomSettings(create);
+      if ("reason" in result) {
+        rejectJoin(result);
+        return;
+      }
+      settings = result.settings;
+      if (result.password !== undefined) access = { passwordHash: hashPassword(result.password), invites: [] };
+    }
+    // No capacity given — the server's default, if it has one
+    if (!current && settings?.maxPlayers === undefined && config.rooms.defaultMaxPlayers) {
+      settings = { ...settings, maxPlayers: config.rooms.defaultMaxPlayers };
+    }
+    if (current && !isRejoin) {
+      const currentSettings = store.getRoomSettings(roomId)!;
+      const { maxPlayers } = currentSettings;
+      if (maxPlayers && current.size >= maxPlayers) {
+        rejectJoin({
+          reason: "room_full",
+          message: `That room is full (${maxPlayers} players).`,
+        });
+        return;
+      }
+      const result = admit(currentSettings, store.getRoomAccess(roomId), { password, invite });
+      if ("reason" in result) {
+        rejectJoin(result);
+        return;
+      }
+      access = result.access;
+    }
+
+    // Switching rooms — leave the old one properly first
+    if (session.roomId && session.roomId !== roomId) {
+      socket.leave(session.roomId);
+      removeFromRoom(session);
+    }
+    session.roomId = roomId;
+    store.saveSession({ token: session.token, playerId, roomId, guest: session.guest });
+    const room = store.getOrCreateRoom(roomId, settings);
+    if (access) store.setRoomAccess(roomId, access);
+
+    // Spawn near config.spawn — by default the world centre (800, 600) —
+    // with a small random spread.
     // WHY 800/600? That's WORLD_W/2 + WORLD_H/2 — the same spot Phaser
     // initialises every client's own avatar. Keeping these in sync means
     // when the server sends ROOM_STATE with existing players, their
     // positions are in the same area of the world as newcomers and are
     // immediately visible without anyone having to walk far.
     const newPlayer: Player = {
-      id: socket.id,
-      x: isRejoin ? existing!.x : 800 + (Math.random() - 0.5) * 160,
-      y: isRejoin ? existing!.y : 600 + (Math.random() - 0.5) * 160,
+      id: playerId,
+      name: profile.name,
+      status: profile.status,
+      x: isRejoin ? existing!.x : spawnAt(config.spawn.x),
+      y: isRejoin ? existing!.y : spawnAt(config.spawn.y),
       roomId,
       color: isRejoin ? existing!.color : pickColor(room.size),
     };
 
-    room.set(socket.id, newPlayer);
+    store.addPlayer(roomId, newPlayer);
     socket.join(roomId);
 
-    // Always send full room state so the (re)joining client renders everyone
-    const existingPlayers = Array.from(room.values()).filter(p => p.id !== socket.id);
-    socket.emit(EVENTS.ROOM_STATE, existingPlayers);
-    console.log(`[D] ROOM_STATE → ${socket.id} with ${existingPlayers.length} players:`,
-      existingPlayers.map(p => `${p.id.slice(0,6)}@(${Math.round(p.x)},${Math.round(p.y)})`))
+    // Fresh join = fresh movement budget
+    lastMoveAt = Date.now();
+    moveBudget = 0;
+
+    // Work out who the (re)joining player can see, and let anyone who
+    // just came into view of them know — see interest.ts
+    // — except to anyone this player hides from (see blocks.ts)
+    const { entered, left, watchers } = updateInterest(roomId, room, newPlayer);
+    for (const other of entered) {
+      if (!isHiddenFrom(other.id, playerId)) io.to(other.id).emit(EVENTS.PLAYER_ENTERED_VIEW, newPlayer);
+    }
+    for (const id of left) io.to(id).emit(EVENTS.PLAYER_LEFT_VIEW, playerId);
+
+    // Always send the full snapshot of what's in view so the (re)joining
+    // client renders everyone nearby, plus the names of the whole room
+    const visiblePlayers = watchers.map(id => room.get(id)!).filter(p => !isHiddenFrom(playerId, p.id));
+    socket.emit(EVENTS.ROOM_STATE, visiblePlayers);
+    socket.emit(EVENTS.ROOM_ROSTER, Array.from(room.values())
+      .filter(p => p.id !== playerId)
+      .map(({ id, name, status }) => ({ id, name, status })));
+    eventLog.debug("Sent room state", { roomId, visible: visiblePlayers.length });
+
+    // Recent room chat, so newcomers see the conversation they walked into
+    socket.emit(EVENTS.CHAT_HISTORY, getChatHistory(roomId));
 
     // Send the joining player their own data so the client can snap its
     // avatar to the server-assigned spawn position instead of defaulting
     // to the hard-coded center and then jumping on the first PLAYER_MOVE.
     socket.emit(EVENTS.SELF_PLAYER, newPlayer);
 
-    // Only announce to others if this is a brand-new connection
+    // Only announce to others if this is a brand-new player. This only
+    // updates everyone's roster; avatars come from PLAYER_ENTERED_VIEW.
     if (!isRejoin) {
       socket.to(roomId).emit(EVENTS.PLAYER_JOINED, newPlayer);
     }
 
-    console.log(`[R] ${socket.id} ${isRejoin ? "re-synced" : "joined"} room "${roomId}" (${room.size} players)`);
+    eventLog.info(isRejoin ? "Player re-synced" : "Player joined", { roomId, name: newPlayer.name, players: room.size });
+  });
+
+  // ── PROFILE UPDATE ────────────────────────────────────────────
+  // Rename / change status mid-session. Same rules as on join; the
+  // change is broadcast to the whole room INCLUDING the sender, which
+  // doubles as their confirmation.
+  on(EVENTS.UPDATE_PROFILE, (payload) => {
+    if (!session.roomId) return;
+
+    const room = store.getRoom(session.roomId);
+    const player = room?.get(playerId);
+    if (!room || !player) return;
+
+    const others = Array.from(room.values()).filter(p => p.id !== playerId);
+    const result = validateProfile(payload, others);
+    if ("reason" in result) {
+      rejections.inc({ event: EVENTS.UPDATE_PROFILE, reason: result.reason });
+      socket.emit(EVENTS.PROFILE_REJECTED, {
+        reason: result.reason,
+        message: result.message,
+      });
+      return;
+    }
+
+    const { name, status } = result.profile;
+    store.updatePlayer(session.roomId, playerId, { name, status });
+    io.to(session.roomId).emit(EVENTS.PLAYER_UPDATED, { id: playerId, name, status });
+  });
+
+  // ── TEXT CHAT ─────────────────────────────────────────────────
+  // buildChatMessage() checks the text and works out the audience;
+  // this handler only delivers. Senders always get their own message
+  // back (room broadcast / recipient list includes them), so the client
+  // shows exactly what the server accepted. Direct and nearby messages
+  // skip anyone who blocked the sender; the sender can't tell.
+  on(EVENTS.CHAT_SEND, (payload) => {
+    if (!session.roomId) return;
+
+    const room = store.getRoom(session.roomId);
+    const sender = room?.get(playerId);
+    if (!room || !sender) return;
+
+    const result = buildChatMessage(payload, sender, room);
+    if ("reason" in result) {
+      rejections.inc({ event: EVENTS.CHAT_SEND, reason: result.reason });
+      socket.emit(EVENTS.CHAT_REJECTED, result);
+      return;
+    }
+
+    const { message, recipients } = result;
+    if (recipients === "room") {
+      recordChat(session.roomId, message);
+      tellPeers("chat:record", session.roomId, message);
+      io.to(session.roomId).emit(EVENTS.CHAT_MESSAGE, message);
+    } else {
+      io.to(recipients.filter(id => !hasBlocked(id, playerId))).emit(EVENTS.CHAT_MESSAGE, message);
+    }
+  });
+
+  // ── INVITES ───────────────────────────────────────────────────
+  // Anyone in a room may invite others to it. The invite goes back to
+  // the sender only; sharing the link is up to them.
+  on(EVENTS.INVITE_CREATE, (payload) => {
+    const roomId = session.roomId;
+    if (!roomId || !store.getRoom(roomId)?.has(playerId)) return;
+
+    const { access, invite } = createInvite(store.getRoomAccess(roomId), payload);
+    store.setRoomAccess(roomId, access);
+    socket.emit(EVENTS.INVITE_CREATED, {
+      roomId,
+      token: invite.token,
+      expiresAt: invite.expiresAt,
+      maxUses: invite.usesLeft,
+    });
+  });
+
+  // ── BLOCKING ──────────────────────────────────────────────────
+  // Block someone in your room, change how, or lift a block. The
+  // blocker gets their whole list back (BLOCK_LIST) as confirmation.
+  // The other side is told nothing — though with hideMyAvatar the
+  // blocker's avatar leaves (or comes back into) their view. See
+  // blocks.ts.
+  //
+  // A signed-in player's list is saved in the store, which also takes
+  // it to the other nodes; a guest's only goes to the other nodes.
+  const sendBlocks = () => {
+    const entries = getBlocks(playerId);
+    if (session.guest) tellPeers("blocks:set", playerId, entries);
+    else store.saveBlocks(playerId, entries);
+    socket.emit(EVENTS.BLOCK_LIST, entries);
+  };
+
+  /** If we're in view of `otherId`, show or hide our avatar to match our block. */
+  const updateVisibilityTo = (otherId: string, wasHidden: boolean) => {
+    const hidden = isHiddenFrom(otherId, playerId);
+    if (hidden === wasHidden || !getWatchers(playerId).includes(otherId)) return;
+    if (hidden) {
+      io.to(otherId).emit(EVENTS.PLAYER_LEFT_VIEW, playerId);
+      return;
+    }
+    const self = session.roomId ? store.getRoom(session.roomId)?.get(playerId) : undefined;
+    if (self) io.to(otherId).emit(EVENTS.PLAYER_ENTERED_VIEW, self);
+  };
+
+  on(EVENTS.BLOCK_SET, ({ playerId: otherId, hideTheirAvatar = false, hideMyAvatar = false }) => {
+    // Someone in our room — or already on our list, who may have left
+    const room = session.roomId ? store.getRoom(session.roomId) : undefined;
+    const name = room?.get(otherId)?.name ?? getBlocks(playerId).find(b => b.playerId === otherId)?.name;
+    if (!name || otherId === playerId) return;
+
+    const wasHidden = isHiddenFrom(otherId, playerId);
+    if (block(playerId, { playerId: otherId, name, hideTheirAvatar, hideMyAvatar })) {
+      eventLog.info("Blocked", { blocked: otherId, hideTheirAvatar, hideMyAvatar });
+      // A call with someone you've just blocked doesn't carry on
+      if (inCallTogether(playerId, otherId)) hangUp(playerId, "hung_up");
+      updateVisibilityTo(otherId, wasHidden);
+    } else {
+      rejections.inc({ event: EVENTS.BLOCK_SET, reason: "list_full" });
+    }
+    sendBlocks();
+  });
+
+  on(EVENTS.BLOCK_REMOVE, ({ playerId: otherId }) => {
+    const wasHidden = isHiddenFrom(otherId, playerId);
+    if (!unblock(playerId, otherId)) return;
+    eventLog.info("Unblocked", { blocked: otherId });
+    updateVisibilityTo(otherId, wasHidden);
+    sendBlocks();
   });
 
   // ── PLAYER MOVE ───────────────────────────────────────────────
-  // Client sends their new intended position; server rebroadcasts to others.
+  // Client sends one input — a numbered step (dx, dy); the server
+  // checks it, applies it, and rebroadcasts to players who can see them.
+  //
+  // The server is the authority on where a player is. A move is
+  // rejected if it lands somewhere unwalkable or covers more ground
+  // than PLAYER_SPEED allows since the last accepted move. Rejected
+  // moves are not broadcast; the sender gets POSITION_CORRECTION with
+  // their last valid position so their avatar snaps back.
   //
-  // NOTE: In a production game you'd validate positions server-side to
-  // prevent cheating. For Phase 1 we trust the client — we'll add
-  // server-side validation in a later phase.
-  socket.on(EVENTS.PLAYER_MOVE, (payload: MovePayload) => {
-    if (!currentRoomId) return;
+  // Every processed input is acknowledged on the next tick (MOVE_ACK)
+  // with its seq and the resulting position, so the client can replay
+  // its newer inputs on top of it — see the client's MovePredictor.
+  //
+  // WHY a distance budget instead of distance / elapsed per packet?
+  // Packets bunch up on real networks — two moves sent 50ms apart
+  // can arrive 2ms apart. A budget that refills at PLAYER_SPEED and
+  // is capped lets a delayed burst through without ever letting a
+  // client cover more ground than it could have walked.
+  on(EVENTS.PLAYER_MOVE, (payload) => {
+    if (!session.roomId) return;
+
+    const room = store.getRoom(session.roomId);
+    const current = room?.get(playerId);
+    if (!room || !current) return;
 
-    const room = rooms.get(currentRoomId);
-    if (!room) return;
+    const now = Date.now();
+    const elapsedSec = Math.min(now - lastMoveAt, MOVE_BUDGET_CAP_MS) / 1000;
+    lastMoveAt = now;
+    moveBudget = Math.min(
+      moveBudget + PLAYER_SPEED * MOVE_SPEED_TOLERANCE * elapsedSec,
+      MAX_MOVE_BUDGET,
+    );
 
-    const player = room.get(socket.id);
-    if (!player) return;
+    const wanted = { x: current.x + payload.dx, y: current.y + payload.dy };
+    const target = clampToWorld(wanted.x, wanted.y);
+    const dist = Math.hypot(target.x - current.x, target.y - current.y);
+
+    if (!isWalkable(target.x, target.y) || dist > moveBudget) {
+      const reason = dist > moveBudget ? "too_fast" : "unwalkable";
+      rejections.inc({ event: EVENTS.PLAYER_MOVE, reason });
+      eventLog.debug("Move refused", { scope: "move", seq: payload.seq, reason, dist, budget: moveBudget });
+      socket.emit(EVENTS.POSITION_CORRECTION, {
+        seq: payload.seq,
+        x: current.x,
+        y: current.y,
+      });
+      markAcked(playerId, { seq: payload.seq, x: current.x, y: current.y });
+      return;
+    }
+    moveBudget -= dist;
 
     // Update stored position
-    player.x = payload.x;
-    player.y = payload.y;
-
-    // Broadcast the update to everyone in the room EXCEPT the sender.
-    // The sender already knows their own position — no need to echo it back.
-    socket.to(currentRoomId).emit(EVENTS.PLAYER_MOVED, {
-      id: socket.id,
-      x: payload.x,
-      y: payload.y,
-    });
+    const player = store.updatePlayer(session.roomId, playerId, target)!;
+    markAcked(playerId, { seq: payload.seq, x: player.x, y: player.y });
+    eventLog.trace("Moved", { scope: "move", seq: payload.seq, x: player.x, y: player.y });
+
+    // Clamped to the world edge — tell the sender where they really are
+    if (target.x !== wanted.x || target.y !== wanted.y) {
+      socket.emit(EVENTS.POSITION_CORRECTION, { seq: payload.seq, ...target });
+    }
+
+    // Only players within view hear about the move (see interest.ts).
+    // Both sides of a view change get the other's full Player on enter,
+    // which already carries the new position — unless that side hides
+    // from the other (see blocks.ts).
+    const { entered, left } = updateInterest(session.roomId, room, player);
+    for (const other of entered) {
+      if (!isHiddenFrom(playerId, other.id)) socket.emit(EVENTS.PLAYER_ENTERED_VIEW, other);
+      if (!isHiddenFrom(other.id, playerId)) io.to(other.id).emit(EVENTS.PLAYER_ENTERED_VIEW, player);
+    }
+    for (const id of left) {
+      socket.emit(EVENTS.PLAYER_LEFT_VIEW, id);
+      io.to(id).emit(EVENTS.PLAYER_LEFT_VIEW, playerId);
+    }
+
+    // Everyone else in view gets it in the next tick's snapshot (see
+    // TICK below). The sender already knows their own position — no
+    // need to echo it back.
+    if (dist > 0) markMoved(session.roomId, playerId);
   });
 
   // ── CALL + WEBRTC SIGNALING RELAY ─────────────────────────────
   //
-  // The server is intentionally "dumb" here — it just forwards these
-  // messages to the target player by socket ID.
-  //
-  // WHY not process them server-side?
   // WebRTC signaling (offer/answer/ICE) is negotiated directly between
-  // two browsers. The server only acts as a post office during setup.
-  // Once the WebRTC connection is established, audio goes P2P — zero
-  // server bandwidth cost.
+  // two browsers. The server only acts as a post office during setup:
+  // it forwards these messages to the target player by player ID and
+  // never looks inside them. Once the WebRTC connection is established,
+  // audio goes P2P — zero server bandwidth cost.
   //
   // Each handler follows the same pattern:
   //   1. Receive {to, ...data} from sender
-  //   2. Forward {from: socket.id, ...data} to the target socket
-  //   3. If target doesn't exist, silently ignore (they disconnected)
+  //   2. checkRelay(): target must be in the sender's room (and, for a
+  //      CALL_REQUEST, within CALL_RADIUS if set) — see signaling.ts
+  //   3. Refused → SIGNAL_REJECTED back to the sender, nothing forwarded
+  //   4. Otherwise forward {from: playerId, ...data} to the target
+  //
+  // The call events also drive the call's state in calls.ts. WebRTC
+  // messages are only forwarded between two players in the same call.
+
+  const reject = (event: SignalingEvent, to: string, reason: SignalRejectReason, message: string) => {
+    rejections.inc({ event, reason });
+    eventLog.debug("Signal refused", { to, reason });
+    socket.emit(EVENTS.SIGNAL_REJECTED, { event, to, reason, message });
+  };
+
+  /** Room (and radius) check. Sends the rejection and returns false if refused. */
+  const canReach = (event: SignalingEvent, to: string): boolean => {
+    const room = session.roomId ? store.getRoom(session.roomId) : undefined;
+    const sender = room?.get(playerId);
+    if (!sender) {
+      reject(event, to, "not_in_room", "Join a room first.");
+      return false;
+    }
+    const rejection = checkRelay(event, sender, to, room);
+    if (rejection) {
+      reject(event, to, rejection.reason, rejection.message);
+      return false;
+    }
+    return true;
+  };
 
-  const relay = (
-    event: string,
-    payload: { to: string },
-    extra?: Record<string, unknown>,
+  const relay = <E extends typeof EVENTS.CALL_REQUEST | typeof EVENTS.CALL_ACCEPT | WebRtcEvent>(
+    event: E, payload: PayloadOf<E>,
   ) => {
-    socket.to(payload.to).emit(event, { from: socket.id, ...payload, ...extra });
+    // These events map to the same payload plus `from` on the way out
+    // (see Relayed<T>); TS can't follow that through the union.
+    const out = { from: playerId, ...payload } as Parameters<ServerToClientEvents[E]>[0];
+    socket.to(payload.to).emit(event, ...([out] as Parameters<ServerToClientEvents[E]>));
+    relayLatency.observe({ event }, Number(process.hrtime.bigint() - receivedAt) / 1e9);
   };
 
-  socket.on(EVENTS.CALL_REQUEST, (p: CallRequestPayload) =>
-    relay(EVENTS.CALL_REQUEST, p));
+  // ── CALLS ─────────────────────────────────────────────────────
+  // Because the server knows every call's state (see calls.ts) it can
+  // answer for a callee who can't: "busy" if they're already in a call,
+  // "missed" if nobody picks up, "disconnected" if either side drops.
 
-  socket.on(EVENTS.CALL_ACCEPT, (p: CallResponsePayload) =>
-    relay(EVENTS.CALL_ACCEPT, p));
+  on(EVENTS.CALL_REQUEST, (payload) => {
+    if (!canReach(EVENTS.CALL_REQUEST, payload.to)) return;
 
-  socket.on(EVENTS.CALL_DECLINE, (p: CallResponsePayload) =>
-    relay(EVENTS.CALL_DECLINE, p));
+    // Our client only rings from idle; anything else is a stale double-send
+    if (getCall(playerId)) return;
 
-  socket.on(EVENTS.CALL_END, (p: { to: string }) =>
-    relay(EVENTS.CALL_END, p));
+    // Blocked — the callee never hears of it, and the caller gets the
+    // same "busy" as for a callee on another call
+    if (hasBlocked(payload.to, playerId)) {
+      rejections.inc({ event: EVENTS.CALL_REQUEST, reason: "blocked" });
+      eventLog.debug("Call refused, caller blocked", { callee: payload.to });
+      socket.emit(EVENTS.CALL_DECLINE, { from: payload.to, to: playerId, reason: "busy" });
+      return;
+    }
 
-  socket.on(EVENTS.WEBRTC_OFFER, (p: WebRtcSdpPayload) =>
-    relay(EVENTS.WEBRTC_OFFER, p));
+    if (getCall(payload.to)) {
+      callEvents.inc({ event: "busy" });
+      socket.emit(EVENTS.CALL_DECLINE, { from: payload.to, to: playerId, reason: "busy" });
+      return;
+    }
 
-  socket.on(EVENTS.WEBRTC_ANSWER, (p: WebRtcSdpPayload) =>
-    relay(EVENTS.WEBRTC_ANSWER, p));
+    const call = startCall(randomUUID(), playerId, payload.to, ({ id, caller, callee }) => {
+      log.info("Call missed", { callId: id, caller, callee });
+      callEvents.inc({ event: "timeout" });
+      tellPeers("call:end", caller, callee);
+      io.to(caller).emit(EVENTS.CALL_END, { from: callee, to: caller, reason: "missed" });
+      io.to(callee).emit(EVENTS.CALL_END, { from: caller, to: callee, reason: "missed" });
+    });
+    tellPeers("call:start", call.id, playerId, payload.to);
+    eventLog.info("Call ringing", { callId: call.id, callee: payload.to });
+    callEvents.inc({ event: "request" });
+    relay(EVENTS.CALL_REQUEST, payload);
+  });
 
-  socket.on(EVENTS.WEBRTC_ICE, (p: WebRtcIcePayload) =>
-    relay(EVENTS.WEBRTC_ICE, p));
+  // Accept and decline only make sense for a call that is ringing US,
+  // from the player we're answering.
+  const ringingFrom = (callerId: string) => {
+    const call = getCall(playerId);
+    return call?.state === "ringing" && call.callee === playerId && call.caller === callerId
+      ? call
+      : undefined;
+  };
 
-  // ── DISCONNECT ────────────────────────────────────────────────
-  socket.on("disconnect", () => {
-    console.log(`[-] Player disconnected: ${socket.id}`);
+  on(EVENTS.CALL_ACCEPT, (payload) => {
+    if (!canReach(EVENTS.CALL_ACCEPT, payload.to)) return;
+    const call = ringingFrom(payload.to);
+    if (!call) {
+      reject(EVENTS.CALL_ACCEPT, payload.to, "not_in_call", "That call has already ended.");
+      return;
+    }
+    connectCall(call);
+    tellPeers("call:connect", call.caller, call.callee);
+    eventLog.info("Call connected", { callId: call.id, caller: call.caller });
+    callEvents.inc({ event: "accept" });
+    relay(EVENTS.CALL_ACCEPT, payload);
+  });
 
-    if (!currentRoomId) return;
+  on(EVENTS.CALL_DECLINE, (payload) => {
+    const call = ringingFrom(payload.to);
+    if (!call) return;  // already over — nothing to decline
+    endCallEverywhere(call);
+    eventLog.info("Call declined", { callId: call.id, caller: call.caller });
+    callEvents.inc({ event: "decline" });
+    socket.to(payload.to).emit(EVENTS.CALL_DECLINE, { from: playerId, to: payload.to, reason: "declined" });
+  });
 
-    const room = rooms.get(currentRoomId);
-    if (!room) return;
+  // Hang-up (or cancel while ringing). The client sends this whenever it
+  // tears a call down, including after the server already ended it —
+  // that's a no-op.
+  on(EVENTS.CALL_END, (payload) => {
+    if (inCallTogether(playerId, payload.to)) hangUp(playerId, "hung_up");
+  });
+
+  // ── WEBRTC ────────────────────────────────────────────────────
+  // Logged per call at debug — offers and answers on the "signaling"
+  // scope, ICE (many per call) on its own "ice" scope. See log.ts.
+  const relayWebRtc = <E extends WebRtcEvent>(event: E, payload: PayloadOf<E>) => {
+    if (!canReach(event, payload.to)) return;
+    if (!inCallTogether(playerId, payload.to)) {
+      reject(event, payload.to, "not_in_call", "You're not in a call with that player.");
+      return;
+    }
+    const scope = event === EVENTS.WEBRTC_ICE ? "ice" : "signaling";
+    eventLog.debug("Relayed", { scope, callId: getCall(playerId)!.id, to: payload.to });
+    relay(event, payload);
+  };
+
+  on(EVENTS.WEBRTC_OFFER,  (p) => relayWebRtc(EVENTS.WEBRTC_OFFER, p));
+  on(EVENTS.WEBRTC_ANSWER, (p) => relayWebRtc(EVENTS.WEBRTC_ANSWER, p));
+  on(EVENTS.WEBRTC_ICE,    (p) => relayWebRtc(EVENTS.WEBRTC_ICE, p));
+
+  // ── ICE SERVERS ───────────────────────────────────────────────
+  // STUN/TURN list for this player's peer connections, with fresh TURN
+  // credentials each time. The client caches it and asks again before
+  // the credentials expire — see ice.ts.
+  on(EVENTS.ICE_CONFIG_REQUEST, () => {
+    const iceConfig = iceConfigFor(playerId);
+    eventLog.debug("Sent ICE servers", { scope: "ice", expiresAt: iceConfig.expiresAt });
+    socket.emit(EVENTS.ICE_CONFIG, iceConfig);
+  });
+
+  // ── DISCONNECT ────────────────────────────────────────────────
+  socket.on("disconnect", (reason) => {
+    socketLog.info("Player disconnected", { reason, roomId: session.roomId ?? undefined });
+
+    // A newer socket already took over this session — nothing to do
+    if (session.socketId !== socket.id) return;
+    session.socketId = null;
 
-    // Remove from room
-    room.delete(socket.id);
+    // Calls don't survive the signaling link: a ringing call can't be
+    // answered and the peer would otherwise wait on it forever.
+    hangUp(playerId, "disconnected");
 
-    // Clean up empty rooms to prevent memory leaks
-    if (room.size === 0) {
-      rooms.delete(currentRoomId);
-      console.log(`[R] Room "${currentRoomId}" is now empty, removed.`);
+    // Left on purpose (Leave button), removed by an admin, or never
+    // joined a room: remove now.
+    if (reason === "client namespace disconnect" || reason === "server namespace disconnect" || !session.roomId) {
+      endSession(session);
+      return;
     }
 
-    // Tell remaining players someone left
-    io.to(currentRoomId).emit(EVENTS.PLAYER_LEFT, socket.id);
+    // Unexpected drop — hold the player and give them a chance to return
+    holdForReconnect(session);
   });
 });
 
 // ─────────────────────────────────────────────────────────────────
-//  START
+//  TICK
+//
+//  Moves are applied as they arrive but sent out here, TICK_RATE_HZ
+//  times a second: one PLAYER_MOVED per client per tick, holding only
+//  the players in its view that moved (see snapshots.ts), plus one
+//  MOVE_ACK to each client that sent inputs.
+//
+//  WHY not relay each PLAYER_MOVE straight away?
+//  Every client sends at its own EMIT_INTERVAL_MS, so a relay hands
+//  each viewer N unsynchronised streams — lots of tiny packets whose
+//  timing wobbles with every sender's network. A fixed tick means
+//  fewer, larger packets on a steady beat, which mobile radios handle
+//  far better.
+//
+//  The snapshot seq is the tick number since the epoch rather than a
+//  counter, so every node numbers the same tick the same way and a
+//  client hearing from several nodes sees one sequence.
+// ─────────────────────────────────────────────────────────────────
+function tick() {
+  for (const [playerId, ack] of takeAcks()) io.to(playerId).emit(EVENTS.MOVE_ACK, ack);
+
+  const moved = takeMoved();
+  if (moved.size === 0) return;
+
+  const serverTime = Date.now();
+  const seq = Math.floor(serverTime / TICK_INTERVAL_MS);
+  for (const [roomId, ids] of moved) {
+    const room = store.getRoom(roomId);
+    if (!room) continue;
+    for (const [viewerId, players] of buildSnapshots(room, ids)) {
+      io.to(viewerId).emit(EVENTS.PLAYER_MOVED, { seq, serverTime, players });
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  RESTORE
+//
+//  A persistent store comes back with the players who were online
+//  when the server stopped. Treat them exactly like an unexpected
+//  drop: held as "reconnecting" for RECONNECT_GRACE_MS, so a client
+//  that reconnects with its session token lands where it was, with
+//  the same name and color. Players with no session to come back on
+//  can never be resumed, so they go straight away.
+//
+//  It also comes back with the bans in force (see moderation.ts) and
+//  signed-in players' blocks (see blocks.ts).
+// ─────────────────────────────────────────────────────────────────
+for (const stored of store.listSessions()) {
+  const player = store.getRoom(stored.roomId)?.get(stored.playerId);
+  if (!player) {
+    store.deleteSession(stored.token);
+    continue;
+  }
+  const session: Session = { ...stored, socketId: null, graceTimer: null };
+  sessions.set(session.token, session);
+  updateInterest(session.roomId, store.getRoom(session.roomId)!, player);
+  holdForReconnect(session);
+}
+
+// Bans outlast a restart with a persistent store; expired ones are
+// dropped here rather than carried from file to file
+for (const ban of store.listBans()) {
+  if (ban.expiresAt !== null && ban.expiresAt <= Date.now()) store.deleteBan(ban.playerId);
+  else addBan(ban);
+}
+
+for (const [blockerId, entries] of Object.entries(store.listBlocks())) setBlocks(blockerId, entries);
+
+const restoredIds = new Set(Array.from(sessions.values(), s => s.playerId));
+for (const { roomId } of store.listRooms()) {
+  for (const id of Array.from(store.getRoom(roomId)!.keys())) {
+    if (!restoredIds.has(id)) store.removePlayer(roomId, id);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  ADMIN
+//
+//  The game side of the admin API (admin.ts handles the HTTP).
+//  Removing someone works the same from any node: REMOVED and the
+//  disconnect go to the player's Socket.IO room, which the adapter
+//  delivers wherever their socket is, and that node's disconnect
+//  handler takes them out. A player held for reconnect has no socket,
+//  so whichever node holds their session ends it.
 // ─────────────────────────────────────────────────────────────────
-const PORT = process.env.PORT || 3001;
-httpServer.listen(PORT, () => {
-  console.log(`\n🚀 mping server running on http://localhost:${PORT}`);
-  console.log(`   Health: http://localhost:${PORT}/health\n`);
+
+/** The room `playerId` is in, if any. */
+const findPlayerRoom = (playerId: string) =>
+  store.listRooms().find(({ roomId }) => store.getRoom(roomId)?.has(playerId))?.roomId;
+
+/** Take a player out of the game, telling them why. */
+function evict(playerId: string, removal: RemovedPayload) {
+  io.to(playerId).emit(EVENTS.REMOVED, removal);
+  io.in(playerId).disconnectSockets(true);
+  endHeldSession(playerId);
+  tellPeers("player:evict", playerId);
+}
+
+/** End `playerId`'s session if we're holding it for a reconnect. */
+function endHeldSession(playerId: string) {
+  for (const session of sessions.values()) {
+    if (session.playerId !== playerId || session.socketId) continue;
+    if (session.graceTimer) clearTimeout(session.graceTimer);
+    endSession(session);
+  }
+}
+
+const withReason = (message: string, reason: string | null) => reason ? `${message} Reason: ${reason}` : message;
+
+const adminActions: AdminActions = {
+  listRooms: () => store.listRooms().map(({ roomId, playerCount, settings }) => ({ id: roomId, settings, playerCount })),
+
+  getRoom(roomId) {
+    const room = store.getRoom(roomId);
+    if (!room) return undefined;
+    return {
+      id: roomId,
+      settings: store.getRoomSettings(roomId)!,
+      playerCount: room.size,
+      players: Array.from(room.values(), (p) => {
+        const call = getCall(p.id);
+        return {
+          id: p.id,
+          name: p.name,
+          status: p.status,
+          x: Math.round(p.x),
+          y: Math.round(p.y),
+          reconnecting: !!p.reconnecting,
+          call: call ? { peerId: peerOf(call, p.id), state: call.state } : null,
+        };
+      }),
+    };
+  },
+
+  closeRoom(roomId, message) {
+    const room = store.getRoom(roomId);
+    if (!room) return undefined;
+    const playerIds = Array.from(room.keys());
+    for (const id of playerIds) {
+      evict(id, { reason: "room_closed", message: message ?? "A moderator closed this room." });
+    }
+    log.info("Room closed by an admin", { roomId, players: playerIds.length });
+    return playerIds.length;
+  },
+
+  announce(roomId, text) {
+    if (!store.getRoom(roomId)) return undefined;
+    const announcement = { id: randomUUID(), text, sentAt: Date.now() };
+    io.to(roomId).emit(EVENTS.ANNOUNCEMENT, announcement);
+    return announcement;
+  },
+
+  kick(playerId, reason) {
+    if (!findPlayerRoom(playerId)) return false;
+    evict(playerId, { reason: "kicked", message: withReason("A moderator removed you from the room.", reason) });
+    return true;
+  },
+
+  async ban(playerId, { reason, durationMs, byAddress }) {
+    const [socket] = byAddress ? await io.in(playerId).fetchSockets() : [];
+    const session = Array.from(sessions.values()).find(s => s.playerId === playerId)
+      ?? store.listSessions().find(s => s.playerId === playerId);
+    const now = Date.now();
+    const ban: Ban = {
+      playerId,
+      address: socket?.handshake.address ?? null,
+      token: session?.token ?? null,
+      reason,
+      bannedAt: now,
+      expiresAt: durationMs === null ? null : now + durationMs,
+    };
+    addBan(ban);
+    store.saveBan(ban);
+    if (findPlayerRoom(playerId)) {
+      evict(playerId, { reason: "banned", message: withReason("You've been banned from this server.", reason) });
+    }
+    return ban;
+  },
+
+  listBans: () => listBans(),
+
+  liftBan(playerId) {
+    store.deleteBan(playerId);
+    return liftBan(playerId);
+  },
+};
+
+app.use("/admin", createAdminRouter(config.admin.token, adminActions));
+
+// ─────────────────────────────────────────────────────────────────
+//  PEERS
+//
+//  What other nodes tell us (see adapter.ts). Each node's players are
+//  handled by that node's socket handlers; these only keep our copy
+//  of the shared state in step, and never emit to clients — the node
+//  that made the change already did.
+// ─────────────────────────────────────────────────────────────────
+
+/** A room store change from another node, already applied to `store`. */
+function onPeerStoreOp(op: StoreOp, emptied: boolean) {
+  switch (op.op) {
+    case "add":
+    case "update": {
+      // Keep our area-of-interest grid current, so our own players'
+      // views include players on other nodes
+      const room = store.getRoom(op.roomId);
+      const player = room?.get(op.op === "add" ? op.player.id : op.playerId);
+      if (player && (op.op === "add" || "x" in op.changes)) updateInterest(op.roomId, room, player);
+      break;
+    }
+    case "remove":
+      removeFromInterest(op.roomId, op.playerId);
+      if (emptied) clearChatHistory(op.roomId);
+      break;
+    case "deleteSession": {
+      const session = sessions.get(op.token);
+      if (session?.graceTimer) clearTimeout(session.graceTimer);
+      sessions.delete(op.token);
+      break;
+    }
+    case "saveBan":
+      addBan(op.ban);
+      break;
+    case "deleteBan":
+      liftBan(op.playerId);
+      break;
+    case "saveBlocks":
+      setBlocks(op.blockerId, op.entries);
+      break;
+  }
+}
+
+// The client reconnected to another node: that node has the session now
+io.on("session:resumed", (token, socketId) => {
+  const session = sessions.get(token);
+  if (!session) return;
+  if (session.graceTimer) {
+    clearTimeout(session.graceTimer);
+    session.graceTimer = null;
+  }
+  // Our old socket's disconnect handler checks this and stands down
+  const staleSocketId = session.socketId;
+  session.socketId = socketId;
+  sessions.delete(token);
+  if (staleSocketId) disconnectTakenOver(staleSocketId);
+});
+
+// Calls between players on different nodes. Only the node that
+// started a call runs its ring timer (see calls.ts).
+const peerCall = (caller: string, callee: string) => {
+  const call = getCall(caller);
+  return call?.caller === caller && call.callee === callee ? call : undefined;
+};
+io.on("call:start", (callId, caller, callee) => {
+  if (!getCall(caller) && !getCall(callee)) startCall(callId, caller, callee);
 });
+io.on("call:connect", (caller, callee) => {
+  const call = peerCall(caller, callee);
+  if (call) connectCall(call);
+});
+io.on("call:end", (caller, callee) => {
+  const call = peerCall(caller, callee);
+  if (call) endCall(call);
+});
+
+io.on("chat:record", (roomId, message) => recordChat(roomId, message));
+
+io.on("player:evict", (playerId) => endHeldSession(playerId));
+
+io.on("blocks:set", (blockerId, entries) => setBlocks(blockerId, entries));
+
+// ─────────────────────────────────────────────────────────────────
+//  START
+//
+//  Everything above is wired up on import; nothing listens or ticks
+//  until startServer() runs. main.ts runs it on config.port; the
+//  integration tests (test/server.test.ts) run it on port 0, which
+//  the OS turns into a free one — `port` says which.
+// ─────────────────────────────────────────────────────────────────
+export interface RunningServer {
+  port: number;
+  /**
+   * Stop ticking, disconnect everyone, write out pending store changes
+   * and close the port. Disconnected players are held as if they'd
+   * dropped, so a persistent store restores them on the next start.
+   */
+  close(): Promise<void>;
+}
+
+export async function startServer(port = config.port): Promise<RunningServer> {
+  await attachAdapter(io);
+  replicated?.connect();
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  const ticker = setInterval(tick, TICK_INTERVAL_MS);
+
+  const actualPort = (httpServer.address() as AddressInfo).port;
+  log.info("🚀 mping server running", {
+    url: `http://localhost:${actualPort}`,
+    health: `http://localhost:${actualPort}/health`,
+    metrics: `http://localhost:${actualPort}/metrics`,
+    adapter: isClustered ? CLUSTER_ADAPTER : undefined,
+    pid: process.pid,
+  });
+
+  return {
+    port: actualPort,
+    close() {
+      clearInterval(ticker);
+      const closed = new Promise<void>(resolve => io.close(() => resolve()));
+      // io.close() disconnected everyone just now; their reconnect
+      // grace would keep the process alive for RECONNECT_GRACE_MS
+      for (const session of sessions.values()) {
+        if (session.graceTimer) clearTimeout(session.graceTimer);
+        session.graceTimer = null;
+      }
+      store.flush();
+      return closed;
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import { Player, VIEW_DISTANCE, VIEW_HYSTERESIS } from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  AREA OF INTEREST
+//
+//  Broadcasting every move to the whole room costs O(players²)
+//  messages. Instead each player only hears from players within
+//  VIEW_DISTANCE (see the shared constants for the hysteresis rule).
+//
+//  Two structures per room:
+//    • A uniform grid of VIEW_DISTANCE-sized cells, so "who is near
+//      (x, y)?" only looks at the 3×3 cells around it, not the room.
+//    • A symmetric "in view" relation: if A sees B, B sees A. Distance
+//      is symmetric, so one set per player serves as both "who I can
+//      see" and "who needs my moves".
+//
+//  Like calls.ts this module only keeps state and reports what
+//  changed; index.ts decides what to emit.
+// ─────────────────────────────────────────────────────────────────
+const CELL = VIEW_DISTANCE;
+const LEAVE_DISTANCE = VIEW_DISTANCE + VIEW_HYSTERESIS;
+
+/** roomId → cell key → player IDs in that cell */
+const grids = new Map<string, Map<string, Set<string>>>();
+/** playerId → the cell key it was last filed under */
+const cellOf = new Map<string, string>();
+/** playerId → player IDs currently in view (symmetric) */
+const inView = new Map<string, Set<string>>();
+
+const cellKey = (cx: number, cy: number) => `${cx},${cy}`;
+const cellAt = (x: number, y: number) => cellKey(Math.floor(x / CELL), Math.floor(y / CELL));
+
+/** File `player` under the cell for its current position. */
+function placeInGrid(roomId: string, player: Player) {
+  const key = cellAt(player.x, player.y);
+  const prev = cellOf.get(player.id);
+  if (prev === key) return;
+
+  let grid = grids.get(roomId);
+  if (!grid) grids.set(roomId, grid = new Map());
+
+  if (prev) {
+    const cell = grid.get(prev);
+    cell?.delete(player.id);
+    if (cell?.size === 0) grid.delete(prev);
+  }
+  let cell = grid.get(key);
+  if (!cell) grid.set(key, cell = new Set());
+  cell.add(player.id);
+  cellOf.set(player.id, key);
+}
+
+/** IDs of players within `radius` of (x, y), from the grid. */
+function queryGrid(roomId: string, room: ReadonlyMap<string, Player>, x: number, y: number, radius: number): string[] {
+  const grid = grids.get(roomId);
+  if (!grid) return [];
+
+  const span = Math.ceil(radius / CELL);
+  const cx = Math.floor(x / CELL);
+  const cy = Math.floor(y / CELL);
+  const found: string[] = [];
+  for (let dx = -span; dx <= span; dx++) {
+    for (let dy = -span; dy <= span; dy++) {
+      for (const id of grid.get(cellKey(cx + dx, cy + dy)) ?? []) {
+        const p = room.get(id);
+        if (p && Math.hypot(p.x - x, p.y - y) <= radius) found.push(id);
+      }
+    }
+  }
+  return found;
+}
+
+/** What changed for one player after a join or move. */
+export interface InterestUpdate {
+  entered: Player[];   // newly in view — each side must be told about the other
+  left: string[];      // no longer in view — each side must drop the other
+  watchers: string[];  // everyone in view now, including `entered`
+}
+
+/**
+ * Re-file `player` after it joined or moved, and work out who it now
+ * sees. `room` is the player's room, including the player.
+ */
+export function updateInterest(roomId: string, room: ReadonlyMap<string, Player>, player: Player): InterestUpdate {
+  placeInGrid(roomId, player);
+
+  let mine = inView.get(player.id);
+  if (!mine) inView.set(player.id, mine = new Set());
+
+  // Out of range (with hysteresis) or gone from the room
+  const left: string[] = [];
+  for (const id of mine) {
+    const other = room.get(id);
+    if (!other || Math.hypot(other.x - player.x, other.y - player.y) > LEAVE_DISTANCE) {
+      mine.delete(id);
+      inView.get(id)?.delete(player.id);
+      left.push(id);
+    }
+  }
+
+  const entered: Player[] = [];
+  for (const id of queryGrid(roomId, room, player.x, player.y, VIEW_DISTANCE)) {
+    if (id === player.id || mine.has(id)) continue;
+    mine.add(id);
+    let theirs = inView.get(id);
+    if (!theirs) inView.set(id, theirs = new Set());
+    theirs.add(player.id);
+    entered.push(room.get(id)!);
+  }
+
+  return { entered, left, watchers: Array.from(mine) };
+}
+
+/** Everyone currently in `playerId`'s view. */
+export function getWatchers(playerId: string): string[] {
+  return Array.from(inView.get(playerId) ?? []);
+}
+
+/**
+ * Forget `playerId` entirely (left the room or the server).
+ * Returns who could see them — the caller decides whether to tell them.
+ */
+export function removeFromInterest(roomId: string, playerId: string): string[] {
+  const watchers = getWatchers(playerId);
+  for (const id of watchers) inView.get(id)?.delete(playerId);
+  inView.delete(playerId);
+
+  const key = cellOf.get(playerId);
+  cellOf.delete(playerId);
+  const grid = grids.get(roomId);
+  if (key && grid) {
+    grid.get(key)?.delete(playerId);
+    if (grid.get(key)?.size === 0) grid.delete(key);
+    if (grid.size === 0) grids.delete(roomId);
+  }
+  return watchers;
+}
@@ -0,0 +1,119 @@
+// ─────────────────────────────────────────────────────────────────
+//  LOGGING
+//
+//  One logger for the whole server. Every line has a level, a message
+//  and context fields — socket, player, room, event, call — so a line
+//  can be found and followed without reading the ones around it.
+//
+//    LOG_LEVEL   trace | debug | info (default) | warn | error
+//    LOG_FORMAT  json (default in production) | pretty (otherwise)
+//    LOG_SCOPES  per-path levels for the noisy paths, e.g.
+//                "move=trace,ice=debug". A line logged with
+//                `scope: "move"` uses that level instead of LOG_LEVEL.
+//
+//  (or `log` in the config file — see config.ts)
+//
+//  Scopes used so far:
+//    move       every accepted (trace) and refused (debug) PLAYER_MOVE
+//    signaling  WebRTC offers and answers relayed (debug)
+//    ice        ICE candidates relayed (debug)
+//
+//  Calls carry a `callId` (see calls.ts) from CALL_REQUEST to CALL_END,
+//  on every node, so `grep <callId>` tells one call's whole story.
+//
+//  WHY hand-rolled instead of pino/winston?
+//  Levels, two output formats and child loggers are all we use — a
+//  page of code, like schemas.ts and metrics.ts.
+// ─────────────────────────────────────────────────────────────────
+
+import { config } from "./config";
+
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error";
+
+/** Context carried on a line. Anything else goes in too. */
+export interface LogFields {
+  socketId?: string;
+  playerId?: string;
+  roomId?: string;
+  event?: string;
+  callId?: string;
+  scope?: string;    // picks a LOG_SCOPES level
+  err?: unknown;     // an Error is logged as its message and stack
+  [field: string]: unknown;
+}
+
+export interface Logger {
+  trace(msg: string, fields?: LogFields): void;
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every line. */
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { trace: 10, debug: 20, info: 30, warn: 40, error: 50 };
+
+const { format } = config.log;
+const minLevel = LEVELS[config.log.level];
+const scopeLevels = new Map(Object.entries(config.log.scopes).map(([scope, level]) => [scope, LEVELS[level]]));
+
+const enabled = (level: LogLevel, scope: unknown) =>
+  LEVELS[level] >= (typeof scope === "string" ? scopeLevels.get(scope) ?? minLevel : minLevel);
+
+const serialize = (fields: LogFields): LogFields => {
+  const { err } = fields;
+  return err instanceof Error ? { ...fields, err: { message: err.message, stack: err.stack } } : fields;
+};
+
+// ── Output ───────────────────────────────────────────────────────
+const COLORS: Record<LogLevel, string> = {
+  trace: "\x1b[90m", debug: "\x1b[36m", info: "\x1b[32m", warn: "\x1b[33m", error: "\x1b[31m",
+};
+const DIM = "\x1b[2m";
+const RESET = "\x1b[0m";
+const color = process.stdout.isTTY;
+
+// Short forms of the common IDs keep pretty lines readable
+const SHORT_KEYS = new Set(["socketId", "playerId", "callId", "caller", "callee", "to", "blocked"]);
+
+function pretty(level: LogLevel, msg: string, fields: LogFields): string {
+  const time = new Date().toISOString().slice(11, 23);
+  const tag = level.toUpperCase().padEnd(5);
+  const rest = Object.entries(fields)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => {
+      if (k === "err" && v instanceof Error) return `\n${v.stack ?? v.message}`;
+      const text = typeof v === "string" ? (SHORT_KEYS.has(k) ? v.slice(0, 8) : v) : JSON.stringify(v);
+      return `${k}=${text}`;
+    })
+    .join(" ");
+  return color
+    ? `${DIM}${time}${RESET} ${COLORS[level]}${tag}${RESET} ${msg} ${DIM}${rest}${RESET}`
+    : `${time} ${tag} ${msg} ${rest}`;
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields) {
+  const line = format === "json"
+    ? JSON.stringify({ time: new Date().toISOString(), level, msg, ...serialize(fields) })
+    : pretty(level, msg, fields);
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(line + "\n");
+}
+
+function createLogger(base: LogFields): Logger {
+  const at = (level: LogLevel) => (msg: string, fields?: LogFields) => {
+    const scope = fields?.scope ?? base.scope;
+    if (enabled(level, scope)) write(level, msg, fields ? { ...base, ...fields } : base);
+  };
+  return {
+    trace: at("trace"),
+    debug: at("debug"),
+    info: at("info"),
+    warn: at("warn"),
+    error: at("error"),
+    child: (fields) => createLogger({ ...base, ...fields }),
+  };
+}
+
+/** The root logger. Use `log.child({...})` to add context. */
+export const log = createLogger({});
@@ -0,0 +1,26 @@
+import { startServer } from "./index";
+import { CLUSTER_ADAPTER, isClustered } from "./adapter";
+import { log } from "./log";
+import { config } from "./config";
+
+// ─────────────────────────────────────────────────────────────────
+//  MAIN
+//
+//  `npm run dev` / `npm start`: the server (index.ts) on config.port,
+//  as one process. Kept apart from index.ts so the tests can import
+//  the server and start it on a port of their own.
+// ─────────────────────────────────────────────────────────────────
+startServer()
+  .then((server) => {
+    // Write out pending changes before exiting, so a restart picks up the
+    // latest positions rather than ones up to a second old
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.on(signal, () => {
+        void server.close().then(() => process.exit(0));
+      });
+    }
+  })
+  .catch((err) => {
+    log.error("Could not start the server", { port: config.port, adapter: isClustered ? CLUSTER_ADAPTER : undefined, err });
+    process.exit(1);
+  });
@@ -0,0 +1,114 @@
+// ─────────────────────────────────────────────────────────────────
+//  METRICS
+//
+//  Counters, gauges and histograms, served at GET /metrics in the
+//  Prometheus text format. The socket handlers in index.ts count as
+//  they go; gauges are read fresh on every scrape.
+//
+//  WHY hand-rolled instead of prom-client?
+//  Same reason as schemas.ts: three metric types and a text format are
+//  a page of code, and we don't need the rest of a library for them.
+//
+//  Keep label values bounded — event names, reasons, public room IDs.
+//  Never a player ID: every distinct label set is its own time series.
+// ─────────────────────────────────────────────────────────────────
+
+export type Labels = Record<string, string>;
+
+/** One value of a gauge, as returned by its collect function. */
+export interface Sample {
+  labels?: Labels;
+  value: number;
+}
+
+export interface Counter {
+  inc(labels?: Labels, by?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+type Metric = { name: string; help: string; type: "counter" | "gauge" | "histogram"; render(): string[] };
+
+const registry: Metric[] = [];
+
+const escape = (v: string) => v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels = {}) => {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escape(v)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+};
+
+// Label sets as Map keys: the same labels in any order map to one series
+const keyOf = (labels: Labels = {}) =>
+  Object.keys(labels).sort().map(k => `${k}=${labels[k]}`).join(",");
+
+/** A number that only goes up. */
+export function counter(name: string, help: string): Counter {
+  const series = new Map<string, Sample>();
+  registry.push({
+    name, help, type: "counter",
+    render: () => Array.from(series.values(), s => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+  return {
+    inc(labels = {}, by = 1) {
+      const key = keyOf(labels);
+      const s = series.get(key);
+      if (s) s.value += by;
+      else series.set(key, { labels, value: by });
+    },
+  };
+}
+
+/** A value read at scrape time. */
+export function gauge(name: string, help: string, collect: () => Sample[]) {
+  registry.push({
+    name, help, type: "gauge",
+    render: () => collect().map(s => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+}
+
+/** A distribution, counted into `buckets` (upper bounds, ascending). */
+export function histogram(name: string, help: string, buckets: number[]): Histogram {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  registry.push({
+    name, help, type: "histogram",
+    render: () => Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+      // Buckets are cumulative: each counts everything at or below it
+      ...buckets.map((le, i) => `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`),
+      `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+      `${name}_sum${formatLabels(labels)} ${sum}`,
+      `${name}_count${formatLabels(labels)} ${count}`,
+    ]),
+  });
+  return {
+    observe(labels, value) {
+      const key = keyOf(labels);
+      let s = series.get(key);
+      if (!s) series.set(key, s = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 });
+      buckets.forEach((le, i) => { if (value <= le) s.counts[i]++; });
+      s.sum += value;
+      s.count++;
+    },
+  };
+}
+
+/** Everything registered, in the Prometheus text exposition format. */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const m of registry) {
+    lines.push(`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`, ...m.render());
+  }
+  return lines.join("\n") + "\n";
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// ── Process ──────────────────────────────────────────────────────
+gauge("process_resident_memory_bytes", "Resident memory size in bytes.",
+  () => [{ value: process.memoryUsage().rss }]);
+gauge("nodejs_heap_used_bytes", "V8 heap in use, in bytes.",
+  () => [{ value: process.memoryUsage().heapUsed }]);
+gauge("process_uptime_seconds", "Seconds since the process started.",
+  () => [{ value: Math.round(process.uptime()) }]);
@@ -0,0 +1,63 @@
+// ─────────────────────────────────────────────────────────────────
+//  BANS
+//
+//  Set through the admin API (admin.ts). A ban refuses JOIN_ROOM, in
+//  any room, to:
+//
+//    • the banned player ID, and
+//    • optionally, the address they were connected from.
+//
+//  The ban also remembers the player's session token: a client that
+//  reconnects with it gets the same (banned) player ID back, rather
+//  than a fresh session. Player IDs still only live as long as that
+//  token, so someone determined can clear their storage and start
+//  over; banning the address closes that door too, at the
+//  cost of everyone else behind the same address (an office NAT, or
+//  every client when they all come through the dev proxy). That's why
+//  it's opt-in.
+//
+//  This module holds the bans in force; each is also saved in the room
+//  store, which keeps them across restarts (ROOM_STORE=file) and hands
+//  them to every node, including one that starts later (see
+//  roomStore.ts and index.ts, RESTORE and PEERS).
+// ─────────────────────────────────────────────────────────────────
+export interface Ban {
+  playerId: string;
+  address: string | null;     // also refused from here, if set
+  token: string | null;       // their session token — never sent out
+  reason: string | null;      // shown to the player
+  bannedAt: number;
+  expiresAt: number | null;   // null = until lifted
+}
+
+const bans = new Map<string, Ban>();
+
+const isActive = (ban: Ban, now: number) => ban.expiresAt === null || ban.expiresAt > now;
+
+/** Add (or replace) the ban on `ban.playerId`. */
+export function addBan(ban: Ban) {
+  bans.set(ban.playerId, ban);
+}
+
+/** Lift a player's ban. Returns false if there wasn't one. */
+export function liftBan(playerId: string): boolean {
+  return bans.delete(playerId);
+}
+
+/** Every ban still in force. Expired ones are dropped on the way. */
+export function listBans(now = Date.now()): Ban[] {
+  for (const [playerId, ban] of bans) {
+    if (!isActive(ban, now)) bans.delete(playerId);
+  }
+  return Array.from(bans.values());
+}
+
+/** The ban on whoever holds this session token, if any. */
+export function findBanByToken(token: string, now = Date.now()): Ban | undefined {
+  return listBans(now).find(b => b.token === token);
+}
+
+/** The ban that stops this player (or address) joining, if any. */
+export function findBan(playerId: string, address: string, now = Date.now()): Ban | undefined {
+  return listBans(now).find(b => b.playerId === playerId || (b.address !== null && b.address === address));
+}
@@ -0,0 +1,102 @@
+import {
+  Player, PlayerProfile, ProfileRejectedPayload,
+  NAME_MAX_LENGTH, STATUS_MAX_LENGTH,
+} from "@mping/shared";
+import { config } from "./config";
+
+// ─────────────────────────────────────────────────────────────────
+//  PROFILE VALIDATION
+//
+//  Every name and status that reaches other players goes through
+//  validateProfile() first — on JOIN_ROOM and on UPDATE_PROFILE.
+//
+//  Rules:
+//    • Whitespace is trimmed and collapsed ("  Ada   L " → "Ada L")
+//    • Names are 1..NAME_MAX_LENGTH chars, status 0..STATUS_MAX_LENGTH
+//    • No control characters (they break labels and logs)
+//    • Names are unique per room, compared case-insensitively
+//    • Every registered name filter gets a veto (profanity, etc.)
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * A name filter returns a rejection message, or null to allow the name.
+ * Register with addNameFilter(). Filters run in registration order.
+ */
+export type NameFilter = (name: string) => string | null;
+
+const nameFilters: NameFilter[] = [];
+
+/** Plug in a profanity filter (or any other name policy). */
+export function addNameFilter(filter: NameFilter) {
+  nameFilters.push(filter);
+}
+
+// Built-in filter: a blocklist from the config (NAME_BLOCKLIST, comma-
+// separated). Matches whole words, case-insensitively. Empty by default
+// — bring your own list, or register a smarter filter with addNameFilter().
+const BLOCKLIST = config.names.blocklist;
+
+if (BLOCKLIST.length > 0) {
+  addNameFilter((name) => {
+    const words = name.toLowerCase().split(/[^a-z0-9]+/);
+    return words.some((w) => BLOCKLIST.includes(w)) ? "Please pick a different name." : null;
+  });
+}
+
+/** Either the cleaned-up profile, or why it was refused. */
+export type ProfileResult = { profile: PlayerProfile } | ProfileRejectedPayload;
+
+/** Control characters, refused in every line of user-visible text (names, titles, …). */
+export const CONTROL_CHARS = /[\u0000-\u001f\u007f]/;
+
+const clean = (s: string) => s.trim().replace(/\s+/g, " ");
+
+/**
+ * Normalise and check a requested profile.
+ * `others` is everyone else in the room — pass the room WITHOUT the
+ * requesting player so renaming yourself to your own name is allowed.
+ */
+export function validateProfile(input: Partial<PlayerProfile>, others: Iterable<Player>): ProfileResult {
+  if (typeof input.name !== "string") {
+    return { reason: "invalid_name", message: "Please enter a name." };
+  }
+  const name = clean(input.name);
+  if (name.length === 0 || name.length > NAME_MAX_LENGTH || CONTROL_CHARS.test(name)) {
+    return {
+      reason: "invalid_name",
+      message: `Names must be 1–${NAME_MAX_LENGTH} characters.`,
+    };
+  }
+
+  let status: string | undefined;
+  if (input.status !== undefined && input.status !== null) {
+    if (typeof input.status !== "string") {
+      return { reason: "invalid_status", message: "Status must be text." };
+    }
+    status = clean(input.status);
+    if (status.length > STATUS_MAX_LENGTH || CONTROL_CHARS.test(status)) {
+      return {
+        reason: "invalid_status",
+        message: `Status can be at most ${STATUS_MAX_LENGTH} characters.`,
+      };
+    }
+    if (status.length === 0) status = undefined;
+  }
+
+  for (const filter of nameFilters) {
+    const rejection = filter(name);
+    if (rejection) return { reason: "profane_name", message: rejection };
+  }
+
+  const lower = name.toLowerCase();
+  for (const p of others) {
+    if (p.name.toLowerCase() === lower) {
+      return {
+        reason: "duplicate_name",
+        message: `Someone in this room is already called "${name}".`,
+      };
+    }
+  }
+
+  return { profile: { name, status } };
+}
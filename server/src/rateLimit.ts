@@ -0,0 +1,75 @@
+// ─────────────────────────────────────────────────────────────────
+//  RATE LIMITING
+//
+//  One token bucket per socket per event. A bucket holds up to `burst`
+//  tokens and refills at `perSecond`; each event takes one. An event
+//  that finds its bucket empty is dropped before its handler runs —
+//  never rebroadcast, never relayed.
+//
+//  A client that keeps hitting the limits isn't a laggy one catching
+//  up: more than `maxDrops` drops within `windowMs` reports "flooding",
+//  and the caller disconnects the socket.
+//
+//  The limits themselves live in the config (`limits.events`, see
+//  config.ts): generous for movement and ICE, strict for CALL_REQUEST
+//  so nobody can ring the whole room over and over.
+//
+//  WHY a bucket instead of "N per second"?
+//  Real clients are bursty — ICE gathering sends a dozen candidates at
+//  once, a reconnect replays several moves. A bucket lets short bursts
+//  through while holding the average down.
+// ─────────────────────────────────────────────────────────────────
+
+export interface RateLimit {
+  perSecond: number;   // refill rate
+  burst: number;       // bucket size
+}
+
+export interface FloodLimit {
+  maxDrops: number;    // drops allowed within windowMs…
+  windowMs: number;    // …before the socket counts as flooding
+}
+
+export type RateResult = "ok" | "limited" | "flooding";
+
+export interface RateLimiter {
+  /** Take a token for `event`. Events without a limit always pass. */
+  take(event: string, now?: number): RateResult;
+}
+
+interface Bucket {
+  tokens: number;
+  refilledAt: number;
+}
+
+export function createRateLimiter(limits: Record<string, RateLimit>, flood: FloodLimit): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  let windowStart = 0;
+  let drops = 0;
+
+  return {
+    take(event, now = Date.now()) {
+      const limit = limits[event];
+      if (!limit) return "ok";
+
+      let bucket = buckets.get(event);
+      if (!bucket) buckets.set(event, bucket = { tokens: limit.burst, refilledAt: now });
+
+      const elapsedSec = (now - bucket.refilledAt) / 1000;
+      bucket.tokens = Math.min(limit.burst, bucket.tokens + elapsedSec * limit.perSecond);
+      bucket.refilledAt = now;
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return "ok";
+      }
+
+      if (now - windowStart > flood.windowMs) {
+        windowStart = now;
+        drops = 0;
+      }
+      drops++;
+      return drops > flood.maxDrops ? "flooding" : "limited";
+    },
+  };
+}
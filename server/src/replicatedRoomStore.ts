@@ -0,0 +1,202 @@
+import { BlockEntry, TICK_INTERVAL_MS } from "@mping/shared";
+import { RoomStore, StoredRoom, StoredSession } from "./roomStore";
+import { Ban } from "./moderation";
+import { GameServer, StoreOp } from "./adapter";
+
+// ─────────────────────────────────────────────────────────────────
+//  REPLICATED ROOM STORE
+//
+//  With several nodes, every node needs every room: a player on node A
+//  can call, chat with, or walk up to a player on node B. This store
+//  wraps the node's own store and keeps it in step with everyone
+//  else's over the Socket.IO adapter:
+//
+//    • Local changes apply at once, and are sent to the other nodes
+//      as a batch of StoreOps once per tick.
+//    • Ops from other nodes are applied to the local store and passed
+//      to `onPeerOp`, so index.ts can update what hangs off it (area
+//      of interest, chat history, sessions).
+//    • A node that starts late says "store:hello"; the others answer
+//      with their full state, and it fills in what it's missing.
+//
+//  Reads stay local and synchronous, exactly as with one node. The
+//  cost is that peers see a change up to one tick later — the same
+//  delay clients already see through snapshots.
+//
+//  Sessions are kept here whatever the local backend, so a client
+//  that reconnects to a different node can still be resumed.
+// ─────────────────────────────────────────────────────────────────
+
+export interface ReplicatedRoomStore extends RoomStore {
+  /** Start talking to the other nodes. Call once the adapter is attached. */
+  connect(): void;
+}
+
+/**
+ * `onPeerOp` runs after another node's op has been applied here.
+ * `emptied` is true when a "remove" left its room empty.
+ */
+export function createReplicatedRoomStore(
+  local: RoomStore,
+  io: GameServer,
+  onPeerOp: (op: StoreOp, emptied: boolean) => void,
+): ReplicatedRoomStore {
+  const sessions = new Map<string, StoredSession>();
+  for (const s of local.listSessions()) sessions.set(s.token, s);
+
+  let outbox: StoreOp[] = [];
+  const send = (op: StoreOp) => outbox.push(op);
+
+  /** Apply one op to this node's copy. Returns true if it emptied a room. */
+  const apply = (op: StoreOp): boolean => {
+    switch (op.op) {
+      case "create":
+        local.getOrCreateRoom(op.roomId, op.settings);
+        return false;
+      case "add":
+        local.addPlayer(op.roomId, op.player);
+        return false;
+      case "update":
+        local.updatePlayer(op.roomId, op.playerId, op.changes);
+        return false;
+      case "remove":
+        return local.removePlayer(op.roomId, op.playerId);
+      case "access":
+        local.setRoomAccess(op.roomId, op.access);
+        return false;
+      case "saveSession":
+        sessions.set(op.session.token, op.session);
+        local.saveSession(op.session);
+        return false;
+      case "deleteSession":
+        sessions.delete(op.token);
+        local.deleteSession(op.token);
+        return false;
+      case "saveBan":
+        local.saveBan(op.ban);
+        return false;
+      case "deleteBan":
+        local.deleteBan(op.playerId);
+        return false;
+      case "saveBlocks":
+        local.saveBlocks(op.blockerId, op.entries);
+        return false;
+    }
+  };
+
+  const snapshot = (): [Record<string, StoredRoom>, StoredSession[], Ban[], Record<string, BlockEntry[]>] => {
+    const rooms: Record<string, StoredRoom> = {};
+    for (const { roomId, settings } of local.listRooms()) {
+      rooms[roomId] = {
+        settings,
+        players: Array.from(local.getRoom(roomId)!.values()),
+        access: local.getRoomAccess(roomId),
+      };
+    }
+    return [rooms, Array.from(sessions.values()), local.listBans(), local.listBlocks()];
+  };
+
+  return {
+    ...local,
+
+    getOrCreateRoom(roomId, settings = {}) {
+      if (!local.getRoom(roomId)) send({ op: "create", roomId, settings: { ...settings } });
+      return local.getOrCreateRoom(roomId, settings);
+    },
+
+    addPlayer(roomId, player) {
+      local.addPlayer(roomId, player);
+      send({ op: "add", roomId, player: { ...player } });
+    },
+
+    updatePlayer(roomId, playerId, changes) {
+      const player = local.updatePlayer(roomId, playerId, changes);
+      if (player) send({ op: "update", roomId, playerId, changes: { ...changes } });
+      return player;
+    },
+
+    removePlayer(roomId, playerId) {
+      send({ op: "remove", roomId, playerId });
+      return local.removePlayer(roomId, playerId);
+    },
+
+    setRoomAccess(roomId, access) {
+      local.setRoomAccess(roomId, access);
+      send({ op: "access", roomId, access });
+    },
+
+    getSession: (token) => sessions.get(token),
+
+    saveSession(session) {
+      apply({ op: "saveSession", session: { ...session } });
+      send({ op: "saveSession", session: { ...session } });
+    },
+
+    deleteSession(token) {
+      if (!sessions.has(token)) return;
+      apply({ op: "deleteSession", token });
+      send({ op: "deleteSession", token });
+    },
+
+    listSessions: () => Array.from(sessions.values()),
+
+    saveBan(ban) {
+      local.saveBan(ban);
+      send({ op: "saveBan", ban: { ...ban } });
+    },
+
+    deleteBan(playerId) {
+      local.deleteBan(playerId);
+      send({ op: "deleteBan", playerId });
+    },
+
+    saveBlocks(blockerId, entries) {
+      local.saveBlocks(blockerId, entries);
+      send({ op: "saveBlocks", blockerId, entries: entries.map(e => ({ ...e })) });
+    },
+
+    connect() {
+      io.on("store:ops", (ops) => {
+        for (const op of ops) onPeerOp(op, apply(op));
+      });
+
+      // Fill in only what we don't have: anything we do have is at
+      // least as new as a peer's snapshot of it.
+      io.on("store:state", (rooms, peerSessions, peerBans, peerBlocks) => {
+        for (const [roomId, { settings, players, access }] of Object.entries(rooms)) {
+          if (!local.getRoom(roomId)) apply({ op: "create", roomId, settings });
+          if (access && !local.getRoomAccess(roomId)) apply({ op: "access", roomId, access });
+          for (const player of players) {
+            if (local.getRoom(roomId)?.has(player.id)) continue;
+            const op: StoreOp = { op: "add", roomId, player };
+            onPeerOp(op, apply(op));
+          }
+        }
+        for (const session of peerSessions) {
+          if (!sessions.has(session.token)) apply({ op: "saveSession", session });
+        }
+        const bannedHere = new Set(local.listBans().map(b => b.playerId));
+        for (const ban of peerBans) {
+          if (bannedHere.has(ban.playerId)) continue;
+          const op: StoreOp = { op: "saveBan", ban };
+          onPeerOp(op, apply(op));
+        }
+        const blocksHere = local.listBlocks();
+        for (const [blockerId, entries] of Object.entries(peerBlocks)) {
+          if (blocksHere[blockerId]) continue;
+          const op: StoreOp = { op: "saveBlocks", blockerId, entries };
+          onPeerOp(op, apply(op));
+        }
+      });
+
+      io.on("store:hello", () => io.serverSideEmit("store:state", ...snapshot()));
+      io.serverSideEmit("store:hello");
+
+      setInterval(() => {
+        if (outbox.length === 0) return;
+        io.serverSideEmit("store:ops", outbox);
+        outbox = [];
+      }, TICK_INTERVAL_MS);
+    },
+  };
+}
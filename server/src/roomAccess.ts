@@ -0,0 +1,153 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import {
+  InviteRequestPayload, JoinRejectedPayload, RoomSettings,
+  INVITE_MIN_TTL_MS, INVITE_MAX_TTL_MS, INVITE_MAX_USES,
+} from "@mping/shared";
+import { config } from "./config";
+
+// ─────────────────────────────────────────────────────────────────
+//  ROOM ACCESS
+//
+//  A private room is left out of the directory, and a new player needs
+//  one of two credentials to get in:
+//
+//    • The room's password, set by whoever created it. Only a salted
+//      scrypt hash is kept; the password itself is never stored or
+//      sent anywhere.
+//    • An invite: a random token issued by the server to someone
+//      already in the room (INVITE_CREATE), optionally expiring and
+//      good for a limited number of joins.
+//
+//  The hash and the invites make up the room's RoomAccess record,
+//  kept in the RoomStore next to its settings — so it persists and
+//  replicates like everything else — and dropped with the room when
+//  the last player leaves.
+//
+//  Public rooms are open to anyone, invite or not. Their invites are
+//  only a convenient link, so they aren't counted down.
+//
+//  WHY scryptSync?
+//  JOIN_ROOM is handled synchronously, so that two joins from the same
+//  socket can't interleave. Hashing costs a few tens of ms, and only
+//  on creating a room with a password or joining one with it.
+// ─────────────────────────────────────────────────────────────────
+
+/** One invite. `null` limits mean "never expires" / "unlimited uses". */
+export interface Invite {
+  token: string;
+  expiresAt: number | null;
+  usesLeft: number | null;
+}
+
+/** A room's credentials. Server-only: never sent to clients. */
+export interface RoomAccess {
+  passwordHash?: string;   // "salt:hash", both hex — see hashPassword()
+  invites: Invite[];
+}
+
+/** What a JOIN_ROOM may offer to get into a private room. */
+export interface Credentials {
+  password?: string;
+  invite?: string;
+}
+
+/**
+ * Admitted, with the room's access record as it should now be stored
+ * (an invite used up, dead ones dropped), or why not.
+ */
+export type AdmitResult = { access: RoomAccess | undefined } | JoinRejectedPayload;
+
+const KEY_LENGTH = 32;
+
+/** Hash a room password for storage. */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `${salt.toString("hex")}:${scryptSync(password, salt, KEY_LENGTH).toString("hex")}`;
+}
+
+function passwordMatches(passwordHash: string, password: string): boolean {
+  const [salt, hash] = passwordHash.split(":");
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+const isLive = (invite: Invite, now: number) =>
+  (invite.expiresAt === null || invite.expiresAt > now) &&
+  (invite.usesLeft === null || invite.usesLeft > 0);
+
+/**
+ * May a NEW player enter this room? (A rejoin never asks — they're
+ * already in.) Using an invite counts it down.
+ */
+export function admit(
+  settings: RoomSettings,
+  access: RoomAccess | undefined,
+  { password, invite }: Credentials,
+  now = Date.now(),
+): AdmitResult {
+  if (!settings.private) return { access: undefined };
+
+  const invites = (access?.invites ?? []).filter(i => isLive(i, now));
+
+  if (invite !== undefined) {
+    const used = invites.find(i => i.token === invite);
+    if (!used) {
+      return {
+        reason: "invalid_invite",
+        message: "That invite link has expired or been used up — ask for a new one.",
+      };
+    }
+    const remaining = invites
+      .map(i => i === used && i.usesLeft !== null ? { ...i, usesLeft: i.usesLeft - 1 } : i)
+      .filter(i => isLive(i, now));
+    return { access: { ...access, invites: remaining } };
+  }
+
+  if (password !== undefined) {
+    if (!access?.passwordHash) {
+      return {
+        reason: "invalid_password",
+        message: "That room has no password — you need an invite link to join.",
+      };
+    }
+    if (!passwordMatches(access.passwordHash, password)) {
+      return { reason: "invalid_password", message: "Wrong password for that room." };
+    }
+    return { access: undefined };
+  }
+
+  return {
+    reason: "credentials_required",
+    message: access?.passwordHash
+      ? "That room is private — enter its password or use an invite link."
+      : "That room is invite-only — ask someone in it for an invite link.",
+  };
+}
+
+/**
+ * Issue a new invite. Limits outside the allowed range are clamped
+ * into it rather than refused. Returns the invite and the room's
+ * updated access record.
+ */
+export function createInvite(
+  access: RoomAccess | undefined,
+  { ttlMs, maxUses }: InviteRequestPayload,
+  now = Date.now(),
+): { access: RoomAccess; invite: Invite } {
+  const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(n)));
+
+  const invite: Invite = {
+    token: randomBytes(16).toString("base64url"),
+    expiresAt: ttlMs === undefined ? null : now + clamp(ttlMs, INVITE_MIN_TTL_MS, INVITE_MAX_TTL_MS),
+    usesLeft: maxUses === undefined ? null : clamp(maxUses, 1, INVITE_MAX_USES),
+  };
+
+  const invites = (access?.invites ?? []).filter(i => isLive(i, now));
+  invites.push(invite);
+  // Oldest invites are dropped beyond the limit, so a room's record stays small
+  return {
+    access: { ...access, invites: invites.slice(-config.rooms.maxInvites) },
+    invite,
+  };
+}
@@ -0,0 +1,84 @@
+import {
+  RoomSettings, NewRoomSettings, JoinRejectedPayload,
+  ROOM_TITLE_MAX_LENGTH, ROOM_DESCRIPTION_MAX_LENGTH, ROOM_MIN_CAPACITY, ROOM_MAX_CAPACITY,
+  ROOM_PASSWORD_MIN_LENGTH, ROOM_PASSWORD_MAX_LENGTH,
+} from "@mping/shared";
+import { CONTROL_CHARS } from "./profile";
+
+// ─────────────────────────────────────────────────────────────────
+//  ROOM SETTINGS VALIDATION
+//
+//  Whoever creates a room may give it a title, a description and a
+//  capacity (JOIN_ROOM's `create`). They show up in the public room
+//  directory, so they get the same treatment as names in profile.ts:
+//
+//    • Whitespace is trimmed and collapsed; empty means "not set"
+//    • Title ≤ ROOM_TITLE_MAX_LENGTH, description ≤ ROOM_DESCRIPTION_MAX_LENGTH
+//    • No control characters
+//    • Capacity is a whole number, ROOM_MIN_CAPACITY..ROOM_MAX_CAPACITY
+//
+//  A password makes the room private. It is taken exactly as typed
+//  (no trimming), ROOM_PASSWORD_MIN_LENGTH..ROOM_PASSWORD_MAX_LENGTH
+//  characters, and handed back separately — it never goes into the
+//  settings, which are public. See roomAccess.ts.
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Either the cleaned-up settings (plus the password, if one was set,
+ * for the caller to hash), or why they were refused.
+ */
+export type RoomSettingsResult = { settings: RoomSettings; password?: string } | JoinRejectedPayload;
+
+const clean = (s: string) => s.trim().replace(/\s+/g, " ");
+
+/** Normalise and check the settings for a new room. */
+export function validateRoomSettings(input: NewRoomSettings): RoomSettingsResult {
+  const settings: RoomSettings = {};
+
+  if (input.title !== undefined) {
+    const title = clean(input.title);
+    if (title.length > ROOM_TITLE_MAX_LENGTH || CONTROL_CHARS.test(title)) {
+      return {
+        reason: "invalid_room",
+        message: `Room titles can be at most ${ROOM_TITLE_MAX_LENGTH} characters.`,
+      };
+    }
+    if (title) settings.title = title;
+  }
+
+  if (input.description !== undefined) {
+    const description = clean(input.description);
+    if (description.length > ROOM_DESCRIPTION_MAX_LENGTH || CONTROL_CHARS.test(description)) {
+      return {
+        reason: "invalid_room",
+        message: `Room descriptions can be at most ${ROOM_DESCRIPTION_MAX_LENGTH} characters.`,
+      };
+    }
+    if (description) settings.description = description;
+  }
+
+  if (input.maxPlayers !== undefined) {
+    const max = input.maxPlayers;
+    if (!Number.isInteger(max) || max < ROOM_MIN_CAPACITY || max > ROOM_MAX_CAPACITY) {
+      return {
+        reason: "invalid_room",
+        message: `Capacity must be a whole number from ${ROOM_MIN_CAPACITY} to ${ROOM_MAX_CAPACITY}.`,
+      };
+    }
+    settings.maxPlayers = max;
+  }
+
+  const { password } = input;
+  if (password !== undefined) {
+    if (password.length < ROOM_PASSWORD_MIN_LENGTH || password.length > ROOM_PASSWORD_MAX_LENGTH ||
+        CONTROL_CHARS.test(password)) {
+      return {
+        reason: "invalid_room",
+        message: `Passwords must be ${ROOM_PASSWORD_MIN_LENGTH}–${ROOM_PASSWORD_MAX_LENGTH} characters.`,
+      };
+    }
+  }
+  if (input.private || password !== undefined) settings.private = true;
+
+  return { settings, password };
+}
@@ -0,0 +1,191 @@
+import { BlockEntry, Player, RoomSettings } from "@mping/shared";
+import { createFileRoomStore } from "./fileRoomStore";
+import { RoomAccess } from "./roomAccess";
+import type { Ban } from "./moderation";
+import { config } from "./config";
+
+// ─────────────────────────────────────────────────────────────────
+//  ROOM STORE
+//
+//  Everything the server knows about rooms and the players in them
+//  goes through a RoomStore. index.ts never touches the Maps directly,
+//  so the backend can change without the socket handlers noticing.
+//
+//  Two backends, picked by ROOM_STORE:
+//    memory (default) — plain Maps. Zero setup; a restart forgets
+//                       everything, like it always has.
+//    file             — the same Maps, written to ROOM_STORE_PATH as
+//                       JSON a moment after each change. On restart,
+//                       every player comes back exactly where they
+//                       were, held as "reconnecting" until their
+//                       client reconnects (see index.ts).
+//
+//  WHY synchronous?
+//  Movement touches the store 20 times a second per player, and every
+//  handler reads it. Both backends serve reads from memory, and the
+//  file backend batches its writes, so there's nothing to await.
+//
+//  Bans and signed-in players' blocks live here too, so they outlast a
+//  restart with a persistent backend and reach a node that starts
+//  late (see moderation.ts, blocks.ts).
+//
+//  Rooms come back READ-ONLY: change a player with updatePlayer(), or
+//  a persistent backend would never hear about it. The same goes for a
+//  room's access record: replace it with setRoomAccess().
+// ─────────────────────────────────────────────────────────────────
+
+/** A room as handed out by the store: playerId → Player, read-only. */
+export type Room = ReadonlyMap<string, Readonly<Player>>;
+
+/** One line of listRooms(). */
+export interface RoomSummary {
+  roomId: string;
+  playerCount: number;
+  settings: RoomSettings;
+}
+
+/** A whole room as written to disk or sent to another node. */
+export interface StoredRoom {
+  settings: RoomSettings;
+  players: Player[];
+  access?: RoomAccess;
+}
+
+/**
+ * What a persistent store needs to hand a restored player back to the
+ * right client: the session token that client will reconnect with.
+ */
+export interface StoredSession {
+  token: string;
+  playerId: string;
+  roomId: string;
+  guest: boolean;
+}
+
+export interface RoomStore {
+  /** The room, or undefined if nobody is in it. */
+  getRoom(roomId: string): Room | undefined;
+  /** The room, created empty (with `settings`) if it doesn't exist yet. */
+  getOrCreateRoom(roomId: string, settings?: RoomSettings): Room;
+  /** The settings the room was created with, or undefined if there's no such room. */
+  getRoomSettings(roomId: string): RoomSettings | undefined;
+  /** Put `player` in `roomId` (replacing any previous entry for them). */
+  addPlayer(roomId: string, player: Player): void;
+  /** Change some of a player's fields. Returns the updated player, if found. */
+  updatePlayer(roomId: string, playerId: string, changes: Partial<Player>): Readonly<Player> | undefined;
+  /** Take a player out. Returns true if that emptied (and removed) the room, its settings and access. */
+  removePlayer(roomId: string, playerId: string): boolean;
+  /** The room's password hash and invites (see roomAccess.ts), if it has any. */
+  getRoomAccess(roomId: string): Readonly<RoomAccess> | undefined;
+  /** Replace the room's access record. Ignored if there's no such room. */
+  setRoomAccess(roomId: string, access: RoomAccess): void;
+  /** Every room with anyone in it. */
+  listRooms(): RoomSummary[];
+
+  // Sessions — only persistent backends keep these; the memory store
+  // has nothing to restore after a restart.
+  getSession(token: string): StoredSession | undefined;
+  saveSession(session: StoredSession): void;
+  deleteSession(token: string): void;
+  listSessions(): StoredSession[];
+
+  // Bans — every backend keeps them; index.ts loads them into
+  // moderation.ts on start
+  listBans(): Ban[];
+  /** Add or replace the ban on `ban.playerId`. */
+  saveBan(ban: Ban): void;
+  deleteBan(playerId: string): void;
+
+  // Blocks — signed-in players' only; a guest's end with their session
+  /** blockerId → their whole block list */
+  listBlocks(): Record<string, BlockEntry[]>;
+  /** Replace `blockerId`'s whole list; an empty one deletes it. */
+  saveBlocks(blockerId: string, entries: BlockEntry[]): void;
+
+  /** Write anything pending now (before shutdown). */
+  flush(): void;
+}
+
+/** The default backend: everything in Maps, nothing survives a restart. */
+export function createMemoryRoomStore(): RoomStore {
+  const rooms = new Map<string, Map<string, Player>>();
+  const settings = new Map<string, RoomSettings>();
+  const access = new Map<string, RoomAccess>();
+  const bans = new Map<string, Ban>();
+  const blocks = new Map<string, BlockEntry[]>();
+
+  const getOrCreate = (roomId: string, initial: RoomSettings = {}) => {
+    let room = rooms.get(roomId);
+    if (!room) {
+      rooms.set(roomId, room = new Map());
+      settings.set(roomId, { ...initial });
+    }
+    return room;
+  };
+
+  return {
+    getRoom: (roomId) => rooms.get(roomId),
+    getOrCreateRoom: getOrCreate,
+    getRoomSettings: (roomId) => settings.get(roomId),
+
+    addPlayer(roomId, player) {
+      getOrCreate(roomId).set(player.id, player);
+    },
+
+    updatePlayer(roomId, playerId, changes) {
+      const player = rooms.get(roomId)?.get(playerId);
+      if (player) Object.assign(player, changes);
+      return player;
+    },
+
+    removePlayer(roomId, playerId) {
+      const room = rooms.get(roomId);
+      if (!room) return false;
+      room.delete(playerId);
+      if (room.size > 0) return false;
+      rooms.delete(roomId);
+      settings.delete(roomId);
+      access.delete(roomId);
+      return true;
+    },
+
+    getRoomAccess: (roomId) => access.get(roomId),
+
+    setRoomAccess(roomId, record) {
+      if (rooms.has(roomId)) access.set(roomId, record);
+    },
+
+    listRooms: () => Array.from(rooms, ([roomId, room]) => ({
+      roomId,
+      playerCount: room.size,
+      settings: settings.get(roomId)!,
+    })),
+
+    getSession: () => undefined,
+    saveSession: () => {},
+    deleteSession: () => {},
+    listSessions: () => [],
+
+    listBans: () => Array.from(bans.values()),
+    saveBan: (ban) => { bans.set(ban.playerId, { ...ban }); },
+    deleteBan: (playerId) => { bans.delete(playerId); },
+
+    listBlocks: () => Object.fromEntries(blocks),
+    saveBlocks(blockerId, entries) {
+      if (entries.length === 0) blocks.delete(blockerId);
+      else blocks.set(blockerId, entries.map(e => ({ ...e })));
+    },
+
+    flush: () => {},
+  };
+}
+
+/** Pick the backend from the config (ROOM_STORE, ROOM_STORE_PATH). */
+export function createRoomStore(): RoomStore {
+  switch (config.store.kind) {
+    case "memory":
+      return createMemoryRoomStore();
+    case "file":
+      return createFileRoomStore(config.store.path);
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  EVENTS, ClientToServerEvents, NewRoomSettings,
+  ROOM_ID_MAX_LENGTH, CHAT_MAX_LENGTH, MAX_SDP_LENGTH,
+} from "@mping/shared";
+
+// ─────────────────────────────────────────────────────────────────
+//  RUNTIME PAYLOAD SCHEMAS
+//
+//  The typed event maps in @mping/shared only protect code we compile.
+//  Anyone can open a socket and send `{ x: "lol" }`, so every client →
+//  server payload is checked here before a handler sees it. Anything
+//  that doesn't match is dropped.
+//
+//  WHY hand-rolled instead of a schema library?
+//  We need a dozen shapes of plain objects, strings and numbers. A few
+//  tiny combinators cover that without another dependency, and the
+//  mapped type on CLIENT_EVENT_SCHEMAS makes the compiler check that
+//  every client event has a schema of the right type.
+//
+//  Schemas check SHAPE and hard size limits. Business rules (name
+//  rules, chat length after trimming, who may call whom) stay in the
+//  handlers where the context lives.
+// ─────────────────────────────────────────────────────────────────
+
+/** A type guard for one value. */
+export type Schema<T> = (value: unknown) => value is T;
+
+const string = (maxLength: number, minLength = 0): Schema<string> =>
+  (v): v is string => typeof v === "string" && v.length >= minLength && v.length <= maxLength;
+
+const number: Schema<number> =
+  (v): v is number => typeof v === "number" && Number.isFinite(v);
+
+const boolean: Schema<boolean> =
+  (v): v is boolean => typeof v === "boolean";
+
+const literal = <T extends string>(...options: T[]): Schema<T> =>
+  (v): v is T => typeof v === "string" && (options as string[]).includes(v);
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (v): v is T | undefined => v === undefined || schema(v);
+
+const none: Schema<undefined> =
+  (v): v is undefined => v === undefined;
+
+const nullable = <T>(schema: Schema<T>): Schema<T | null> =>
+  (v): v is T | null => v === null || schema(v);
+
+/** A plain object whose listed keys match; unlisted keys are ignored. */
+const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  (v): v is T => {
+    if (typeof v !== "object" || v === null || Array.isArray(v)) return false;
+    for (const key in shape) {
+      if (!shape[key]((v as Record<string, unknown>)[key])) return false;
+    }
+    return true;
+  };
+
+// ── Shared pieces ──────────────────────────────────────────────
+// Generous caps: the exact rules are enforced downstream, these just
+// stop absurd payloads before they reach any logic.
+const PLAYER_ID = string(64, 1);
+const TEXT_CAP  = 4 * CHAT_MAX_LENGTH;
+const SECRET    = string(256);
+
+const target = object<{ to: string }>({ to: PLAYER_ID });
+
+const roomSettings = object<NewRoomSettings>({
+  title: optional(string(TEXT_CAP)),
+  description: optional(string(TEXT_CAP)),
+  maxPlayers: optional(number),
+  private: optional(boolean),
+  password: optional(SECRET),
+});
+
+const sdp = object<RTCSessionDescriptionInit>({
+  type: literal("offer", "answer", "pranswer", "rollback"),
+  sdp: optional(string(MAX_SDP_LENGTH)),
+});
+
+const iceCandidate = object<RTCIceCandidateInit>({
+  candidate: optional(string(2048)),
+  sdpMid: optional(nullable(string(64))),
+  sdpMLineIndex: optional(nullable(number)),
+  usernameFragment: optional(nullable(string(256))),
+});
+
+export type PayloadOf<E extends keyof ClientToServerEvents> = Parameters<ClientToServerEvents[E]>[0];
+
+/** One schema per client → server event. Missing one is a compile error. */
+export const CLIENT_EVENT_SCHEMAS: { [E in keyof ClientToServerEvents]: Schema<PayloadOf<E>> } = {
+  [EVENTS.JOIN_ROOM]: object({
+    roomId: string(ROOM_ID_MAX_LENGTH, 1),
+    name: string(TEXT_CAP),
+    status: optional(string(TEXT_CAP)),
+    create: optional(roomSettings),
+    password: optional(SECRET),
+    invite: optional(SECRET),
+  }),
+  [EVENTS.PLAYER_MOVE]: object({ seq: number, dx: number, dy: number }),
+  [EVENTS.UPDATE_PROFILE]: object({
+    name: string(TEXT_CAP),
+    status: optional(string(TEXT_CAP)),
+  }),
+  [EVENTS.CHAT_SEND]: object({
+    scope: literal("room", "proximity", "direct"),
+    text: string(TEXT_CAP),
+    to: optional(PLAYER_ID),
+  }),
+  [EVENTS.INVITE_CREATE]: object({ ttlMs: optional(number), maxUses: optional(number) }),
+  [EVENTS.BLOCK_SET]: object({
+    playerId: PLAYER_ID,
+    hideTheirAvatar: optional(boolean),
+    hideMyAvatar: optional(boolean),
+  }),
+  [EVENTS.BLOCK_REMOVE]: object({ playerId: PLAYER_ID }),
+
+  [EVENTS.CALL_REQUEST]: target,
+  [EVENTS.CALL_ACCEPT]: target,
+  [EVENTS.CALL_DECLINE]: target,
+  [EVENTS.CALL_END]: target,
+  [EVENTS.WEBRTC_OFFER]: object({ to: PLAYER_ID, sdp }),
+  [EVENTS.WEBRTC_ANSWER]: object({ to: PLAYER_ID, sdp }),
+  [EVENTS.WEBRTC_ICE]: object({ to: PLAYER_ID, candidate: iceCandidate }),
+  [EVENTS.ICE_CONFIG_REQUEST]: none,
+};
+
+// ── Admin API bodies ───────────────────────────────────────────
+// Same idea for the admin REST endpoints (admin.ts): only a holder of
+// the admin token gets this far, but the bodies are still untrusted.
+const ADMIN_REASON = optional(string(TEXT_CAP));
+
+export const ADMIN_BODY_SCHEMAS = {
+  kick: object<{ reason?: string }>({ reason: ADMIN_REASON }),
+  ban: object<{ reason?: string; durationMs?: number; byAddress?: boolean }>({
+    reason: ADMIN_REASON,
+    durationMs: optional(number),
+    byAddress: optional(boolean),
+  }),
+  close: object<{ message?: string }>({ message: ADMIN_REASON }),
+  announce: object<{ text: string }>({ text: string(TEXT_CAP, 1) }),
+};
+
+/** True if `payload` is a well-formed payload for `event`. */
+export function isValidPayload<E extends keyof ClientToServerEvents>(event: E, payload: unknown): payload is PayloadOf<E> {
+  return CLIENT_EVENT_SCHEMAS[event](payload);
+}
@@ -0,0 +1,55 @@
+import { EVENTS, Player, SignalingEvent, SignalRejectedPayload } from "@mping/shared";
+import { config } from "./config";
+
+// ─────────────────────────────────────────────────────────────────
+//  SIGNALING RELAY RULES
+//
+//  The relay in index.ts forwards call and WebRTC events to whatever
+//  player ID the sender names. Without a check, a script could ring
+//  every player on the server. checkRelay() decides whether one
+//  event may go through:
+//
+//    • The target must be in the sender's current room — always.
+//    • A CALL_REQUEST optionally also needs the two players within
+//      CALL_RADIUS of each other.
+//
+//  WHY only radius-check the request?
+//  Players keep moving while the callee decides and while the call
+//  runs. The accept, offer, answer, ICE and hang-up for a call that
+//  was in range when it rang still have to get through; the room check
+//  alone keeps those contained.
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Max distance (px) between two players for a call to start
+ * (CALL_RADIUS, see config.ts). 0 (the default) means anywhere in
+ * the room. The client offers a call at 150px, so leave some slack
+ * for movement and latency.
+ */
+export const CALL_RADIUS = config.calls.radius;
+
+/**
+ * Null if `event` from `sender` may be forwarded to `to`, otherwise
+ * the rejection to send back. `room` is the sender's current room.
+ */
+export function checkRelay(
+  event: SignalingEvent,
+  sender: Player,
+  to: string,
+  room: ReadonlyMap<string, Player>,
+  callRadius = CALL_RADIUS,
+): SignalRejectedPayload | null {
+  const target = room.get(to);
+  if (!target || target.id === sender.id) {
+    return { event, to, reason: "not_in_room", message: "That player isn't in this room." };
+  }
+
+  if (callRadius > 0 && event === EVENTS.CALL_REQUEST) {
+    const dist = Math.hypot(target.x - sender.x, target.y - sender.y);
+    if (dist > callRadius) {
+      return { event, to, reason: "out_of_range", message: `${target.name} is too far away to call.` };
+    }
+  }
+
+  return null;
+}
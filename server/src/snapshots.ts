@@ -0,0 +1,99 @@
+import { Player, PlayerMovedPayload, MoveAckPayload } from "@mping/shared";
+import { getWatchers } from "./interest";
+import { isHiddenFrom } from "./blocks";
+
+// ─────────────────────────────────────────────────────────────────
+//  MOVEMENT SNAPSHOTS
+//
+//  PLAYER_MOVE handlers don't broadcast anything themselves; they
+//  mark the player as moved. Once per tick index.ts collects the moved
+//  players and sends each client ONE snapshot with just the ones it
+//  can see (see interest.ts).
+//
+//  "Delta" = only players whose position changed this tick. Someone
+//  standing still costs nothing, and a client with nobody moving in
+//  view gets no packet at all. Coordinates are rounded to whole
+//  pixels — sub-pixel detail isn't visible and bloats the JSON.
+//
+//  One exception: a player who moved last tick but not this one is
+//  sent once more, unchanged. That repeat is how clients learn they
+//  STOPPED — otherwise silence would look like a late packet and the
+//  client would keep them walking (see the client's interpolation).
+// ─────────────────────────────────────────────────────────────────
+
+/** roomId → IDs of players with an accepted move since the last tick */
+let moved = new Map<string, Set<string>>();
+/** The same, for the tick before — to spot who just stopped */
+let movedLastTick = new Map<string, Set<string>>();
+
+/** Note that `playerId` has a new position to send out next tick. */
+export function markMoved(roomId: string, playerId: string) {
+  let ids = moved.get(roomId);
+  if (!ids) moved.set(roomId, ids = new Set());
+  ids.add(playerId);
+}
+
+/** Drop a pending update — call when the player leaves the room. */
+export function forgetMoved(roomId: string, playerId: string) {
+  moved.get(roomId)?.delete(playerId);
+  movedLastTick.get(roomId)?.delete(playerId);
+}
+
+/**
+ * Everyone to send this tick, by room: those marked since the last
+ * call, plus those who were marked last time but not now (just
+ * stopped). Resets the marks.
+ */
+export function takeMoved(): Map<string, Set<string>> {
+  const taken = new Map<string, Set<string>>();
+  for (const [roomId, ids] of moved) taken.set(roomId, new Set(ids));
+  for (const [roomId, ids] of movedLastTick) {
+    let out = taken.get(roomId);
+    if (!out) taken.set(roomId, out = new Set());
+    for (const id of ids) out.add(id);
+  }
+
+  movedLastTick = moved;
+  moved = new Map();
+  return taken;
+}
+
+/**
+ * Per-viewer batches for one room: viewer ID → positions to send.
+ * A player who hides their avatar from a viewer (see blocks.ts) is
+ * left out of that viewer's batch.
+ */
+export function buildSnapshots(room: ReadonlyMap<string, Player>, movedIds: Set<string>): Map<string, PlayerMovedPayload[]> {
+  const batches = new Map<string, PlayerMovedPayload[]>();
+  for (const id of movedIds) {
+    const p = room.get(id);
+    if (!p) continue;
+    const entry = { id, x: Math.round(p.x), y: Math.round(p.y) };
+    for (const viewerId of getWatchers(id)) {
+      if (isHiddenFrom(viewerId, id)) continue;
+      let batch = batches.get(viewerId);
+      if (!batch) batches.set(viewerId, batch = []);
+      batch.push(entry);
+    }
+  }
+  return batches;
+}
+
+// ── Acks ───────────────────────────────────────────────────────
+// Only the latest processed input per player matters: acking seq 12
+// implies everything before it.
+
+/** playerId → last processed input since the last tick */
+let acks = new Map<string, MoveAckPayload>();
+
+/** Record that `playerId`'s input `ack.seq` left them at (x, y). */
+export function markAcked(playerId: string, ack: MoveAckPayload) {
+  acks.set(playerId, ack);
+}
+
+/** Acks to send this tick. Resets them. */
+export function takeAcks(): Map<string, MoveAckPayload> {
+  const taken = acks;
+  acks = new Map();
+  return taken;
+}
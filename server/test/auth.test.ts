@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac, generateKeyPairSync, sign } from "crypto";
+import { AuthOptions, authenticate } from "../src/auth";
+
+const b64 = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const hs256 = (claims: object, secret = "s3cret", alg = "HS256") => {
+  const signed = `${b64({ alg, typ: "JWT" })}.${b64(claims)}`;
+  return `${signed}.${createHmac("sha256", secret).update(signed).digest("base64url")}`;
+};
+
+const options: AuthOptions = { secret: "s3cret", publicKey: null, issuer: null, audience: null, allowGuests: true };
+const now = Date.UTC(2026, 0, 1);
+const inAnHour = now / 1000 + 3600;
+
+test("connects without a token as a guest", () => {
+  assert.deepEqual(authenticate({}, options), { identity: { userId: null, name: null, guest: true } });
+});
+
+test("refuses guests when they're turned off", () => {
+  const result = authenticate({}, { ...options, allowGuests: false });
+  assert.equal("reason" in result && result.reason, "auth_required");
+});
+
+test("reads the user and name from a valid HS256 token", () => {
+  const token = hs256({ sub: "ada", name: "Ada", exp: inAnHour });
+  assert.deepEqual(authenticate({ token }, options, now), {
+    identity: { userId: "ada", name: "Ada", guest: false },
+  });
+});
+
+test("refuses a forged, unsigned or expired token instead of making it a guest", () => {
+  const forged = authenticate({ token: hs256({ sub: "ada" }, "guess") }, options, now);
+  assert.equal("reason" in forged && forged.reason, "invalid_token");
+
+  const unsigned = `${b64({ alg: "none" })}.${b64({ sub: "ada" })}.`;
+  const none = authenticate({ token: unsigned }, options, now);
+  assert.equal("reason" in none && none.reason, "invalid_token");
+
+  const expired = authenticate({ token: hs256({ sub: "ada", exp: now / 1000 - 3600 }) }, options, now);
+  assert.equal("reason" in expired && expired.reason, "token_expired");
+});
+
+test("checks issuer and audience when configured", () => {
+  const strict = { ...options, issuer: "https://example.com", audience: "mping" };
+  const good = hs256({ sub: "ada", iss: "https://example.com", aud: ["mping", "other"] });
+  assert.ok("identity" in authenticate({ token: good }, strict, now));
+  const wrong = hs256({ sub: "ada", iss: "https://elsewhere.com", aud: "mping" });
+  assert.ok("reason" in authenticate({ token: wrong }, strict, now));
+});
+
+test("verifies ES256 tokens against a public key", () => {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const signed = `${b64({ alg: "ES256" })}.${b64({ sub: "grace" })}`;
+  const signature = sign("sha256", Buffer.from(signed), { key: privateKey, dsaEncoding: "ieee-p1363" });
+  const token = `${signed}.${signature.toString("base64url")}`;
+
+  const withKey = { ...options, secret: null, publicKey };
+  const result = authenticate({ token }, withKey, now);
+  assert.equal("identity" in result && result.identity.userId, "grace");
+  // An HS256 token can't pass as signed by the public key
+  assert.ok("reason" in authenticate({ token: hs256({ sub: "grace" }) }, withKey, now));
+});
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BLOCK_LIST_MAX } from "@mping/shared";
+import { block, unblock, getBlocks, setBlocks, hasBlocked, isHiddenFrom } from "../src/blocks";
+
+const entry = (playerId: string, hideMyAvatar = false) =>
+  ({ playerId, name: playerId, hideTheirAvatar: false, hideMyAvatar });
+
+test("a block is one-way", () => {
+  block("ada", entry("mallory"));
+  assert.ok(hasBlocked("ada", "mallory"));
+  assert.ok(!hasBlocked("mallory", "ada"));
+  assert.ok(unblock("ada", "mallory"));
+  assert.ok(!hasBlocked("ada", "mallory"));
+  assert.ok(!unblock("ada", "mallory"));
+});
+
+test("hideMyAvatar hides the blocker from the blocked player only", () => {
+  block("grace", entry("eve", true));
+  assert.ok(isHiddenFrom("eve", "grace"));
+  assert.ok(!isHiddenFrom("grace", "eve"));
+  block("grace", entry("eve", false));
+  assert.ok(!isHiddenFrom("eve", "grace"));
+  assert.equal(getBlocks("grace").length, 1);
+});
+
+test("refuses new blocks past the limit but still updates existing ones", () => {
+  for (let i = 0; i < BLOCK_LIST_MAX; i++) assert.ok(block("busy", entry(`p${i}`)));
+  assert.ok(!block("busy", entry("one-more")));
+  assert.ok(block("busy", entry("p0", true)));
+  setBlocks("busy", []);
+  assert.deepEqual(getBlocks("busy"), []);
+});
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { BlockEntry } from "@mping/shared";
+import { createFileRoomStore } from "../src/fileRoomStore";
+import { Ban } from "../src/moderation";
+
+/** A store file of its own, gone when the test ends. */
+function tempStorePath(t: { after(fn: () => void): void }) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mping-store-"));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, "rooms.json");
+}
+
+const ban: Ban = {
+  playerId: "mallory", address: null, token: "t0k3n", reason: "spam", bannedAt: 1, expiresAt: null,
+};
+
+test("a ban survives a reload, and a lifted one stays lifted", (t) => {
+  const file = tempStorePath(t);
+  const store = createFileRoomStore(file);
+  store.saveBan(ban);
+  store.saveBan({ ...ban, playerId: "eve" });
+  store.flush();
+  assert.deepEqual(createFileRoomStore(file).listBans().map(b => b.playerId), ["mallory", "eve"]);
+
+  store.deleteBan("eve");
+  store.flush();
+  assert.deepEqual(createFileRoomStore(file).listBans(), [ban]);
+});
+
+test("a signed-in player's block survives a reload, and a cleared list stays cleared", (t) => {
+  const file = tempStorePath(t);
+  const store = createFileRoomStore(file);
+  const entry: BlockEntry = { playerId: "mallory", name: "Mallory", hideTheirAvatar: true, hideMyAvatar: false };
+  store.saveBlocks("alice", [entry]);
+  store.flush();
+  assert.deepEqual(createFileRoomStore(file).listBlocks(), { alice: [entry] });
+
+  store.saveBlocks("alice", []);
+  store.flush();
+  assert.deepEqual(createFileRoomStore(file).listBlocks(), {});
+});
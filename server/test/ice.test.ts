@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { turnCredentials } from "../src/ice";
+
+// What coturn does with `use-auth-secret`: take the expiry from the
+// username, refuse it if past, and expect HMAC-SHA1 of the username
+// as the password. A stand-in for a real TURN server.
+const coturnAccepts = (secret: string, username: string, credential: string, now: number) => {
+  const expiry = Number(username.split(":")[0]);
+  const expected = createHmac("sha1", secret).update(username).digest("base64");
+  return expiry * 1000 > now && credential === expected;
+};
+
+const now = Date.UTC(2026, 0, 1);
+
+test("issues TURN credentials in coturn's REST API format", () => {
+  const { username, credential, expiresAt } = turnCredentials("s3cret", "ada", 3600, now);
+  assert.equal(username, `${now / 1000 + 3600}:ada`);
+  assert.equal(expiresAt, now + 3600_000);
+  assert.ok(coturnAccepts("s3cret", username, credential, now));
+});
+
+test("credentials stop working when they expire or the secret differs", () => {
+  const { username, credential } = turnCredentials("s3cret", "ada", 60, now);
+  assert.ok(!coturnAccepts("s3cret", username, credential, now + 61_000));
+  assert.ok(!coturnAccepts("other", username, credential, now));
+});
@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createRateLimiter } from "../src/rateLimit";
+
+const limits = { ring: { perSecond: 1, burst: 2 } };
+const flood = { maxDrops: 3, windowMs: 1000 };
+
+test("lets a burst through, then refills at the configured rate", () => {
+  const limiter = createRateLimiter(limits, flood);
+  assert.equal(limiter.take("ring", 0), "ok");
+  assert.equal(limiter.take("ring", 0), "ok");
+  assert.equal(limiter.take("ring", 0), "limited");
+  assert.equal(limiter.take("ring", 500), "limited");
+  assert.equal(limiter.take("ring", 1000), "ok");
+});
+
+test("never limits events without a configured limit", () => {
+  const limiter = createRateLimiter(limits, flood);
+  for (let i = 0; i < 100; i++) assert.equal(limiter.take("other", 0), "ok");
+});
+
+test("reports flooding after too many drops within the window", () => {
+  const limiter = createRateLimiter(limits, flood);
+  limiter.take("ring", 0);
+  limiter.take("ring", 0);
+  const results = [1, 2, 3, 4].map(() => limiter.take("ring", 0));
+  assert.deepEqual(results, ["limited", "limited", "limited", "flooding"]);
+});
+
+test("forgives drops spread over separate windows", () => {
+  const limiter = createRateLimiter({ ring: { perSecond: 0.001, burst: 1 } }, flood);
+  limiter.take("ring", 0);
+  for (let t = 0; t < 10_000; t += 1100) {
+    assert.equal(limiter.take("ring", t), "limited");
+  }
+});
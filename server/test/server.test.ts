@@ -0,0 +1,305 @@
+import { test, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { io as connectTo, Socket } from "socket.io-client";
+import { EVENTS, Player, ServerToClientEvents, ClientToServerEvents } from "@mping/shared";
+import type { RunningServer } from "../src/index";
+
+// The whole server on an ephemeral localhost port, driven by real
+// socket.io-client connections. Server state lasts for the file, so
+// every test uses rooms of its own.
+
+type Client = Socket<ServerToClientEvents, ClientToServerEvents>;
+type Payload<E extends keyof ServerToClientEvents> = Parameters<ServerToClientEvents[E]>[0];
+
+const SECRET = "integration-secret";
+
+let server: RunningServer;
+let url: string;
+const clients: Client[] = [];
+
+before(async () => {
+  // Quiet unless asked for: the server logs every connect and join at
+  // info, and config.ts reads LOG_LEVEL once, on import
+  process.env.LOG_LEVEL ??= "warn";
+  process.env.AUTH_JWT_SECRET = SECRET;
+  const { startServer } = await import("../src/index");
+  server = await startServer(0);
+  url = `http://localhost:${server.port}`;
+});
+afterEach(() => {
+  for (const client of clients.splice(0)) client.disconnect();
+});
+after(() => server.close());
+
+/** The next `event` on `socket`; fails the test if it doesn't come. */
+function next<E extends keyof ServerToClientEvents>(socket: Client, event: E, timeoutMs = 2000): Promise<Payload<E>> {
+  // Untyped, like index.ts's `on`: TS can't match a listener to a generic event
+  type Listener = (payload: unknown) => void;
+  const untyped = socket as unknown as { once(event: string, l: Listener): void; off(event: string, l: Listener): void };
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      untyped.off(event, onEvent);
+      reject(new Error(`No ${event} within ${timeoutMs} ms`));
+    }, timeoutMs);
+    const onEvent = (payload: unknown) => {
+      clearTimeout(timer);
+      resolve(payload as Payload<E>);
+    };
+    untyped.once(event, onEvent);
+  });
+}
+
+/** Every event `socket` receives from now on, by name. */
+function record(socket: Client): string[] {
+  const events: string[] = [];
+  socket.onAny((event: string) => events.push(event));
+  return events;
+}
+
+/** An HS256 sign-in token for `userId` (and `name`, if given), as auth.ts expects. */
+function tokenFor(userId: string, name?: string) {
+  const b64 = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const claims = { sub: userId, name, exp: Math.floor(Date.now() / 1000) + 3600 };
+  const signed = `${b64({ alg: "HS256", typ: "JWT" })}.${b64(claims)}`;
+  return `${signed}.${createHmac("sha256", SECRET).update(signed).digest("base64url")}`;
+}
+
+/** A connection — a guest without `token` — once the server has given it a player ID. */
+async function connect(token?: string): Promise<{ socket: Client; playerId: string }> {
+  const socket: Client = connectTo(url, {
+    transports: ["websocket"], forceNew: true, reconnection: false, auth: token ? { token } : {},
+  });
+  clients.push(socket);
+  const { playerId } = await next(socket, EVENTS.SESSION);
+  return { socket, playerId };
+}
+
+/** Join `roomId` and wait for what the server sends a newcomer. */
+async function join(socket: Client, roomId: string, name: string) {
+  const state = next(socket, EVENTS.ROOM_STATE);
+  const history = next(socket, EVENTS.CHAT_HISTORY);
+  const self = next(socket, EVENTS.SELF_PLAYER);
+  socket.emit(EVENTS.JOIN_ROOM, { roomId, name });
+  return { state: await state, history: await history, self: await self };
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Two players side by side in a fresh room. */
+async function pair(roomId: string) {
+  const ada = await connect();
+  const grace = await connect();
+  const adaJoined = await join(ada.socket, roomId, "Ada");
+  const adaHearsGrace = next(ada.socket, EVENTS.PLAYER_JOINED);
+  const graceJoined = await join(grace.socket, roomId, "Grace");
+  await adaHearsGrace;
+  return { ada: { ...ada, self: adaJoined.self }, grace: { ...grace, self: graceJoined.self } };
+}
+
+// ── Joining ──────────────────────────────────────────────────────
+
+test("a newcomer gets the room and everyone else hears they joined", async () => {
+  const ada = await connect();
+  const first = await join(ada.socket, "join", "Ada");
+  assert.deepEqual(first.state, []);
+  assert.equal(first.self.id, ada.playerId);
+  assert.equal(first.self.name, "Ada");
+
+  const grace = await connect();
+  const joined = next(ada.socket, EVENTS.PLAYER_JOINED);
+  const roster = next(grace.socket, EVENTS.ROOM_ROSTER);
+  const second = await join(grace.socket, "join", "Grace");
+  assert.equal((await joined).id, grace.playerId);
+  assert.deepEqual(second.state.map((p: Player) => p.id), [ada.playerId]);
+  assert.deepEqual((await roster).map(p => [p.id, p.name]), [[ada.playerId, "Ada"]]);
+
+  const rooms = await (await fetch(`${url}/rooms/join`)).json();
+  assert.equal(rooms.playerCount, 2);
+});
+
+test("joining again re-syncs in place without a second PLAYER_JOINED", async () => {
+  const { ada, grace } = await pair("rejoin");
+  const adaHears = record(ada.socket);
+
+  const before = (await fetch(`${url}/rooms/rejoin`).then(r => r.json())).playerCount;
+  const again = await join(grace.socket, "rejoin", "Someone else");
+  assert.equal(again.self.name, "Grace", "a rejoin keeps the profile");
+  assert.deepEqual(again.state.map((p: Player) => p.id), [ada.playerId]);
+
+  // Ada's events arrive in order: once she has this, she'd have had a PLAYER_JOINED
+  const said = next(ada.socket, EVENTS.CHAT_MESSAGE);
+  grace.socket.emit(EVENTS.CHAT_SEND, { scope: "room", text: "still me" });
+  assert.equal((await said).text, "still me");
+  assert.ok(!adaHears.includes(EVENTS.PLAYER_JOINED), `Ada heard: ${adaHears.join(", ")}`);
+  assert.equal((await fetch(`${url}/rooms/rejoin`).then(r => r.json())).playerCount, before);
+});
+
+test("a taken name is refused before the player enters", async () => {
+  await pair("names");
+  const imposter = await connect();
+  const rejected = next(imposter.socket, EVENTS.JOIN_REJECTED);
+  imposter.socket.emit(EVENTS.JOIN_ROOM, { roomId: "names", name: "Ada" });
+  assert.equal((await rejected).reason, "duplicate_name");
+  assert.equal((await fetch(`${url}/rooms/names`).then(r => r.json())).playerCount, 2);
+});
+
+test("a signed-in user's second tab takes over and the first is told why", async () => {
+  const first = await connect(tokenFor("ada"));
+  await join(first.socket, "tabs", "Ada");
+
+  const removed = next(first.socket, EVENTS.REMOVED);
+  const second = await connect(tokenFor("ada"));
+  assert.equal(second.playerId, first.playerId);
+  assert.equal((await removed).reason, "signed_in_elsewhere");
+});
+
+test("a signed-in user who joins without a name goes by the token's", async () => {
+  const ada = await connect(tokenFor("lovelace", "Ada Lovelace"));
+  const { self } = await join(ada.socket, "token-name", " ");
+  assert.equal(self.name, "Ada Lovelace");
+});
+
+// ── Moving ───────────────────────────────────────────────────────
+
+test("a move is acknowledged and reaches players in view on the next tick", async () => {
+  const { ada, grace } = await pair("move");
+  await wait(100);   // a moment's movement budget
+
+  const ack = next(grace.socket, EVENTS.MOVE_ACK);
+  const snapshot = next(ada.socket, EVENTS.PLAYER_MOVED);
+  grace.socket.emit(EVENTS.PLAYER_MOVE, { seq: 1, dx: 10, dy: 0 });
+
+  const { seq, x, y } = await ack;
+  assert.equal(seq, 1);
+  const seen = (await snapshot).players.find(p => p.id === grace.playerId);
+  assert.ok(seen, "Ada's snapshot carries Grace");
+  assert.ok(Math.abs(seen.x - x) <= 0.5 && Math.abs(seen.y - y) <= 0.5);
+});
+
+test("a move faster than PLAYER_SPEED is refused and corrected", async () => {
+  const { grace } = await pair("too-fast");
+  const { x, y } = grace.self;
+  const correction = next(grace.socket, EVENTS.POSITION_CORRECTION);
+  grace.socket.emit(EVENTS.PLAYER_MOVE, { seq: 7, dx: 500, dy: 0 });
+  assert.deepEqual(await correction, { seq: 7, x, y });
+});
+
+// ── Leaving ──────────────────────────────────────────────────────
+
+test("leaving tells the room, and the last one out closes it", async () => {
+  const { ada, grace } = await pair("leave");
+  grace.socket.emit(EVENTS.CHAT_SEND, { scope: "room", text: "bye" });
+  await next(ada.socket, EVENTS.CHAT_MESSAGE);
+
+  const left = next(ada.socket, EVENTS.PLAYER_LEFT);
+  grace.socket.disconnect();
+  assert.equal(await left, grace.playerId);
+  assert.equal((await fetch(`${url}/rooms/leave`).then(r => r.json())).playerCount, 1);
+
+  ada.socket.disconnect();
+  await wait(100);
+  assert.equal((await fetch(`${url}/rooms/leave`)).status, 404);
+  const listed = await fetch(`${url}/rooms`).then(r => r.json());
+  assert.ok(!listed.some((r: { id: string }) => r.id === "leave"));
+
+  // Same name, fresh room: nobody in it and no old chat
+  const linus = await connect();
+  const fresh = await join(linus.socket, "leave", "Linus");
+  assert.deepEqual(fresh.state, []);
+  assert.deepEqual(fresh.history, []);
+});
+
+test("switching rooms closes an emptied room and tells the new one", async () => {
+  const { ada } = await pair("switch-to");
+  const linus = await connect();
+  await join(linus.socket, "switch-from", "Linus");
+  const linusHears = record(linus.socket);
+
+  const joined = next(ada.socket, EVENTS.PLAYER_JOINED);
+  await join(linus.socket, "switch-to", "Linus");
+  assert.equal((await joined).id, linus.playerId);
+  assert.equal((await fetch(`${url}/rooms/switch-from`)).status, 404);
+  // The PLAYER_LEFT for the closed room went to nobody — not even Linus
+  assert.ok(!linusHears.includes(EVENTS.PLAYER_LEFT), `Linus heard: ${linusHears.join(", ")}`);
+});
+
+// ── Signaling ────────────────────────────────────────────────────
+
+test("relays a whole call: request, accept, offer, answer, ICE and hang-up", async () => {
+  const { ada, grace } = await pair("call");
+  const to = { ada: ada.playerId, grace: grace.playerId };
+
+  const request = next(grace.socket, EVENTS.CALL_REQUEST);
+  ada.socket.emit(EVENTS.CALL_REQUEST, { to: to.grace });
+  assert.deepEqual(await request, { from: to.ada, to: to.grace });
+
+  const accept = next(ada.socket, EVENTS.CALL_ACCEPT);
+  grace.socket.emit(EVENTS.CALL_ACCEPT, { to: to.ada });
+  assert.deepEqual(await accept, { from: to.grace, to: to.ada });
+
+  const sdp = { type: "offer" as const, sdp: "v=0\r\n" };
+  const offer = next(grace.socket, EVENTS.WEBRTC_OFFER);
+  ada.socket.emit(EVENTS.WEBRTC_OFFER, { to: to.grace, sdp });
+  assert.deepEqual(await offer, { from: to.ada, to: to.grace, sdp });
+
+  const answerSdp = { type: "answer" as const, sdp: "v=0\r\n" };
+  const answer = next(ada.socket, EVENTS.WEBRTC_ANSWER);
+  grace.socket.emit(EVENTS.WEBRTC_ANSWER, { to: to.ada, sdp: answerSdp });
+  assert.deepEqual(await answer, { from: to.grace, to: to.ada, sdp: answerSdp });
+
+  const candidate = { candidate: "candidate:1 1 udp 2122260223 192.0.2.1 54400 typ host", sdpMid: "0", sdpMLineIndex: 0 };
+  const ice = next(grace.socket, EVENTS.WEBRTC_ICE);
+  ada.socket.emit(EVENTS.WEBRTC_ICE, { to: to.grace, candidate });
+  assert.deepEqual(await ice, { from: to.ada, to: to.grace, candidate });
+
+  const end = next(ada.socket, EVENTS.CALL_END);
+  grace.socket.emit(EVENTS.CALL_END, { to: to.ada });
+  assert.deepEqual(await end, { from: to.grace, to: to.ada, reason: "hung_up" });
+});
+
+test("relays a declined call, and answers busy for someone already on one", async () => {
+  const { ada, grace } = await pair("decline");
+  const linus = await connect();
+  await join(linus.socket, "decline", "Linus");
+
+  const declined = next(ada.socket, EVENTS.CALL_DECLINE);
+  ada.socket.emit(EVENTS.CALL_REQUEST, { to: grace.playerId });
+  await next(grace.socket, EVENTS.CALL_REQUEST);
+  grace.socket.emit(EVENTS.CALL_DECLINE, { to: ada.playerId });
+  assert.deepEqual(await declined, { from: grace.playerId, to: ada.playerId, reason: "declined" });
+
+  ada.socket.emit(EVENTS.CALL_REQUEST, { to: grace.playerId });
+  await next(grace.socket, EVENTS.CALL_REQUEST);
+  const busy = next(linus.socket, EVENTS.CALL_DECLINE);
+  linus.socket.emit(EVENTS.CALL_REQUEST, { to: grace.playerId });
+  assert.deepEqual(await busy, { from: grace.playerId, to: linus.playerId, reason: "busy" });
+});
+
+test("refuses WebRTC outside a call and signaling across rooms", async () => {
+  const { ada, grace } = await pair("refused");
+  const linus = await connect();
+  await join(linus.socket, "elsewhere", "Linus");
+  const graceHears = record(grace.socket);
+
+  const notInCall = next(ada.socket, EVENTS.SIGNAL_REJECTED);
+  ada.socket.emit(EVENTS.WEBRTC_OFFER, { to: grace.playerId, sdp: { type: "offer", sdp: "v=0\r\n" } });
+  assert.equal((await notInCall).reason, "not_in_call");
+
+  const notInRoom = next(linus.socket, EVENTS.SIGNAL_REJECTED);
+  linus.socket.emit(EVENTS.CALL_REQUEST, { to: grace.playerId });
+  const rejection = await notInRoom;
+  assert.equal(rejection.reason, "not_in_room");
+  assert.equal(rejection.event, EVENTS.CALL_REQUEST);
+  assert.ok(!graceHears.includes(EVENTS.WEBRTC_OFFER) && !graceHears.includes(EVENTS.CALL_REQUEST));
+});
+
+test("a caller who drops ends the ringing call for the callee", async () => {
+  const { ada, grace } = await pair("drop");
+  ada.socket.emit(EVENTS.CALL_REQUEST, { to: grace.playerId });
+  await next(grace.socket, EVENTS.CALL_REQUEST);
+
+  const ended = next(grace.socket, EVENTS.CALL_END);
+  ada.socket.disconnect();
+  assert.deepEqual(await ended, { from: ada.playerId, to: grace.playerId, reason: "disconnected" });
+});
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EVENTS, Player } from "@mping/shared";
+import { checkRelay } from "../src/signaling";
+
+// Two rooms with a player each, plus a second player next to Ada
+const player = (id: string, roomId: string, x: number, y: number): Player =>
+  ({ id, name: id, x, y, roomId, color: "#fff" });
+
+const ada   = player("ada",   "lobby", 800, 600);
+const grace = player("grace", "lobby", 900, 600);
+const linus = player("linus", "attic", 800, 600);
+
+const lobby = new Map([[ada.id, ada], [grace.id, grace]]);
+
+test("forwards signaling to a player in the same room", () => {
+  assert.equal(checkRelay(EVENTS.CALL_REQUEST, ada, grace.id, lobby), null);
+  assert.equal(checkRelay(EVENTS.WEBRTC_ICE, ada, grace.id, lobby), null);
+});
+
+test("blocks every signaling event across rooms", () => {
+  const events = [
+    EVENTS.CALL_REQUEST, EVENTS.CALL_ACCEPT, EVENTS.CALL_DECLINE, EVENTS.CALL_END,
+    EVENTS.WEBRTC_OFFER, EVENTS.WEBRTC_ANSWER, EVENTS.WEBRTC_ICE,
+  ] as const;
+  for (const event of events) {
+    const rejection = checkRelay(event, ada, linus.id, lobby);
+    assert.equal(rejection?.reason, "not_in_room", event);
+    assert.equal(rejection?.event, event);
+    assert.equal(rejection?.to, linus.id);
+  }
+});
+
+test("blocks unknown targets and calling yourself", () => {
+  assert.equal(checkRelay(EVENTS.CALL_REQUEST, ada, "nobody", lobby)?.reason, "not_in_room");
+  assert.equal(checkRelay(EVENTS.CALL_REQUEST, ada, ada.id, lobby)?.reason, "not_in_room");
+});
+
+test("call radius only gates CALL_REQUEST", () => {
+  assert.equal(checkRelay(EVENTS.CALL_REQUEST, ada, grace.id, lobby, 150), null);
+  assert.equal(checkRelay(EVENTS.CALL_REQUEST, ada, grace.id, lobby, 50)?.reason, "out_of_range");
+  // Already ringing or connected — players may have wandered apart
+  assert.equal(checkRelay(EVENTS.CALL_ACCEPT, ada, grace.id, lobby, 50), null);
+  assert.equal(checkRelay(EVENTS.WEBRTC_ICE, ada, grace.id, lobby, 50), null);
+});
@@ -7,24 +7,200 @@
 /**
  * A player that exists in a room.
  * Kept intentionally small for Phase 1.
- * We'll grow this as we add avatars, names, etc.
+ * We'll grow this as we add avatars, etc.
  */
 export interface Player {
-  id: string;        // Socket ID (unique per connection)
+  id: string;        // Stable player ID — survives reconnects (NOT the socket ID)
+  name: string;      // Display name, unique (case-insensitive) within the room
+  status?: string;   // Optional one-line status ("in a meeting", "say hi!")
   x: number;         // World X position in pixels
   y: number;         // World Y position in pixels
   roomId: string;    // Which room they're in
   color: string;     // Temporary avatar color (until we have real avatars)
+  reconnecting?: boolean; // Connection dropped; held for RECONNECT_GRACE_MS
 }
 
+/** The user-editable part of a Player. */
+export type PlayerProfile = Pick<Player, "name" | "status">;
+
+/** Profile limits — the lobby form and the server enforce the same numbers. */
+export const NAME_MAX_LENGTH   = 24;
+export const STATUS_MAX_LENGTH = 60;
+
+/** Room names are slugs ("town-square"); anything longer is refused. */
+export const ROOM_ID_MAX_LENGTH = 64;
+
+/** Room settings limits — the create-room form and the server agree. */
+export const ROOM_TITLE_MAX_LENGTH       = 40;
+export const ROOM_DESCRIPTION_MAX_LENGTH = 200;
+export const ROOM_MIN_CAPACITY           = 2;
+export const ROOM_MAX_CAPACITY           = 100;
+export const ROOM_PASSWORD_MIN_LENGTH    = 4;
+export const ROOM_PASSWORD_MAX_LENGTH    = 64;
+
+/** Invite limits — what a member may ask for when creating an invite link. */
+export const INVITE_MIN_TTL_MS  = 60_000;                  // 1 minute
+export const INVITE_MAX_TTL_MS  = 7 * 24 * 60 * 60_000;    // 7 days
+export const INVITE_MAX_USES    = 100;
+
 /**
- * Payload sent from client → server when a player moves.
+ * Server → client right after connecting.
+ * The client stores the token and sends it back in the Socket.IO
+ * handshake (`auth.sessionToken`) on every reconnect, so the server
+ * re-attaches the same Player instead of spawning a new one.
+ */
+export interface SessionPayload {
+  token: string;
+  playerId: string;
+}
+
+/**
+ * Why the server refused a connection. Arrives as `err.data` on the
+ * client's "connect_error"; Socket.IO doesn't retry these.
+ */
+export interface AuthErrorData {
+  reason:
+    | "auth_required"    // guests aren't allowed — send a sign-in token
+    | "invalid_token"    // bad signature, wrong issuer/audience, malformed
+    | "token_expired";
+  message: string;       // Human-readable, safe to show as-is
+}
+
+/** How long the server keeps a dropped player before removing them. */
+export const RECONNECT_GRACE_MS = 30_000;
+
+/**
+ * Payload sent from client → server when a player moves: one input,
+ * as a step from where the previous input left them.
+ *
+ * WHY a step and not the new position?
+ * The client predicts its own movement and replays inputs the server
+ * hasn't acknowledged yet on top of the server's position (see
+ * MOVE_ACK). That replay is only exact if the server applies the very
+ * same steps — an absolute position would drag a corrected player
+ * straight back onto the path the server just refused.
  */
 export interface MovePayload {
+  seq: number;   // Increases by one per input
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Server → mover: your position after input `seq` was processed
+ * (accepted, clamped or refused). Inputs after `seq` are still in flight.
+ */
+export interface MoveAckPayload {
+  seq: number;
   x: number;
   y: number;
 }
 
+/** One player's accepted position, as carried in a snapshot. */
+export interface PlayerMovedPayload {
+  id: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Server → client, at most once per tick: every player in view whose
+ * position changed since the last tick. Nothing changed → nothing sent.
+ */
+export interface SnapshotPayload {
+  seq: number;          // Tick number (ticks since the epoch); never decreases
+  serverTime: number;   // Server clock when the tick ran, ms since epoch
+  players: PlayerMovedPayload[];
+}
+
+/**
+ * Server → client: "you're not where you think you are".
+ * Sent to the mover only, straight after the server rejects or clamps
+ * a move — an early MOVE_ACK, so the snap-back doesn't wait for a tick.
+ */
+export type PositionCorrectionPayload = MoveAckPayload;
+
+// ─────────────────────────────────────────────────────────────────
+//  WORLD CONSTANTS
+//
+//  WHY here and not in WorldScene?
+//  The server validates every PLAYER_MOVE against the same world the
+//  client draws. If the two disagreed on speed or bounds, honest
+//  players would get snapped back for moves their own screen allowed.
+// ─────────────────────────────────────────────────────────────────
+export const WORLD_W          = 2400;  // World width in pixels
+export const WORLD_H          = 1800;  // World height in pixels
+export const PLAYER_SPEED     = 220;   // Pixels per second
+export const EMIT_INTERVAL_MS = 50;    // How often clients send PLAYER_MOVE
+
+/**
+ * The server batches accepted moves and sends them out on a fixed
+ * tick, one PLAYER_MOVED snapshot per client per tick. Pacing then
+ * depends on the server clock, not on when each client's packets land.
+ */
+export const TICK_RATE_HZ     = 15;
+export const TICK_INTERVAL_MS = 1000 / TICK_RATE_HZ;
+
+// ─────────────────────────────────────────────────────────────────
+//  AREA OF INTEREST
+//
+//  A client only hears about players within VIEW_DISTANCE of its own
+//  avatar: it gets their moves, and PLAYER_ENTERED_VIEW /
+//  PLAYER_LEFT_VIEW as they come and go. Roughly a full desktop
+//  screen at zoom 1, so avatars appear before they walk on screen.
+//
+//  WHY the hysteresis?
+//  Someone standing right on the edge would otherwise flicker in and
+//  out every step. They appear at VIEW_DISTANCE and only disappear
+//  once they're VIEW_HYSTERESIS further away.
+// ─────────────────────────────────────────────────────────────────
+export const VIEW_DISTANCE   = 1000;  // Pixels — enter view at this distance
+export const VIEW_HYSTERESIS = 150;   // Extra pixels before leaving view
+
+/** Isometric tile unit — half-width of one tile in pixels. */
+export const ISO_TILE = 40;
+
+/** Island grid extent in tiles, centred on the world centre. */
+export const ISLAND_COLS = 30;
+export const ISLAND_ROWS = 24;
+
+/** Lake centre in grid coords and its Manhattan radius in tiles. */
+export const LAKE_COL    = 6;
+export const LAKE_ROW    = -7;
+export const LAKE_RADIUS = 4;
+
+/** Convert world (x, y) → fractional grid (col, row). Inverse of isoPos. */
+export function worldToGrid(x: number, y: number): { col: number; row: number } {
+  const u = (x - WORLD_W / 2) / ISO_TILE;         // col - row
+  const v = (y - WORLD_H / 2) / (ISO_TILE / 2);   // col + row
+  return { col: (u + v) / 2, row: (v - u) / 2 };
+}
+
+/** Clamp a position to the world rectangle. */
+export function clampToWorld(x: number, y: number): { x: number; y: number } {
+  return {
+    x: Math.min(WORLD_W, Math.max(0, x)),
+    y: Math.min(WORLD_H, Math.max(0, y)),
+  };
+}
+
+/**
+ * True when a player may stand at (x, y): on the island slab and not
+ * in the lake. Buildings and trees are decoration — you can walk
+ * through them, same as before.
+ */
+export function isWalkable(x: number, y: number): boolean {
+  if (x < 0 || y < 0 || x > WORLD_W || y > WORLD_H) return false;
+
+  const { col, row } = worldToGrid(x, y);
+  // Tiles are centred on integer coords, so each one spans ±0.5
+  if (col < -ISLAND_COLS / 2 - 0.5 || col > ISLAND_COLS / 2 - 0.5) return false;
+  if (row < -ISLAND_ROWS / 2 - 0.5 || row > ISLAND_ROWS / 2 - 0.5) return false;
+
+  const lakeDist = Math.abs(Math.round(col) - LAKE_COL) + Math.abs(Math.round(row) - LAKE_ROW);
+  return lakeDist > LAKE_RADIUS;
+}
+
 /**
  * All Socket.IO events in one place.
  * Using a const object (not enum) so values are available at runtime too.
@@ -35,15 +211,65 @@ export interface MovePayload {
 export const EVENTS = {
   // ── Movement ───────────────────────────────────────────────
   // Server → Client
-  ROOM_STATE: "room:state",          // Full snapshot of everyone in room on join
-  PLAYER_JOINED: "player:joined",    // Someone new joined
-  PLAYER_LEFT: "player:left",        // Someone disconnected
-  PLAYER_MOVED: "player:moved",      // A player's position updated
+  ROOM_STATE: "room:state",          // Snapshot of everyone in VIEW on join
+  ROOM_ROSTER: "room:roster",        // Names of everyone in the room, on join
+  PLAYER_JOINED: "player:joined",    // Someone new joined (whole room)
+  PLAYER_LEFT: "player:left",        // Someone disconnected (whole room)
+  PLAYER_MOVED: "player:moved",      // Per-tick batch of players in view that moved
+  PLAYER_ENTERED_VIEW: "view:enter", // A player came within VIEW_DISTANCE
+  PLAYER_LEFT_VIEW: "view:leave",    // A player went out of view (still in room)
+  PLAYER_RECONNECTING: "player:reconnecting", // Connection dropped, still held
+  PLAYER_RECONNECTED: "player:reconnected",   // Came back within the grace period
 
   // Client → Server
-  PLAYER_MOVE: "player:move",        // "I want to move here"
+  PLAYER_MOVE: "player:move",        // "I moved this much" (one input)
   JOIN_ROOM: "join:room",            // "I want to join this room"
 
+  // Server → joining client only
+  // JOIN_ROOM was refused (bad name, etc.) — the client is NOT in the room.
+  JOIN_REJECTED: "join:rejected",
+
+  // ── Profile ────────────────────────────────────────────────
+  UPDATE_PROFILE: "profile:update",     // Client → Server: "change my name/status"
+  PROFILE_REJECTED: "profile:rejected", // Server → that client: "no, and here's why"
+  PLAYER_UPDATED: "player:updated",     // Server → room (incl. sender): new name/status
+
+  // ── Text chat ──────────────────────────────────────────────
+  CHAT_SEND: "chat:send",            // Client → Server: "say this"
+  CHAT_MESSAGE: "chat:message",      // Server → recipients (incl. sender): a message
+  CHAT_HISTORY: "chat:history",      // Server → joining client: recent room messages
+  CHAT_REJECTED: "chat:rejected",    // Server → sender: message not delivered
+
+  // ── Blocking ───────────────────────────────────────────────
+  BLOCK_SET: "block:set",            // Client → Server: "block this player" (or change how)
+  BLOCK_REMOVE: "block:remove",      // Client → Server: "unblock this player"
+  BLOCK_LIST: "block:list",          // Server → that client: everyone they've blocked, on connect and each change
+
+  // ── Invites ────────────────────────────────────────────────
+  INVITE_CREATE: "invite:create",    // Client → Server: "give me a link to this room"
+  INVITE_CREATED: "invite:created",  // Server → that client: the new invite
+
+  // ── Moderation (server admin API) ──────────────────────────
+  ANNOUNCEMENT: "room:announcement", // Server → room: a system message for the HUD
+  // Server → that client, just before the server disconnects it:
+  // kicked, banned, or the room was closed. Socket.IO won't reconnect.
+  REMOVED: "self:removed",
+
+  // Server → moving client only
+  // Sent when the server rejects or clamps a PLAYER_MOVE (too fast,
+  // out of bounds, into the lake) so the client snaps back to the
+  // position everyone else sees.
+  POSITION_CORRECTION: "self:correct",
+
+  // Server → moving client only, once per tick
+  // The last PLAYER_MOVE input processed and where it left the mover.
+  // The client reconciles its prediction against this.
+  MOVE_ACK: "self:ack",
+
+  // Server → connecting client only
+  // Issues (or confirms) the session token used to resume after a drop.
+  SESSION: "session",
+
   // Server → joining client only
   // Sent right after JOIN_ROOM so the client knows its server-assigned
   // spawn position and can snap its own avatar to match, avoiding the
@@ -51,11 +277,14 @@ export const EVENTS = {
   SELF_PLAYER: "self:player",
 
   // ── Voice call signaling ────────────────────────────────────
-  // These events are all relayed by the server (it never processes them,
-  // just forwards to the target player by socket ID).
+  // Forwarded to the target player by player ID — if they're in the
+  // sender's room (see SIGNAL_REJECTED). The server also tracks each
+  // call's state, so it can answer some of these itself: CALL_DECLINE
+  // "busy" when the callee is already in a call, CALL_END "missed" when
+  // nobody answers, CALL_END "disconnected" when the peer drops.
   CALL_REQUEST: "call:request",      // A → server → B: "can we talk?"
   CALL_ACCEPT: "call:accept",        // B → server → A: "yes"
-  CALL_DECLINE: "call:decline",      // B → server → A: "no"
+  CALL_DECLINE: "call:decline",      // B → server → A: "no" (or server → A: busy)
   CALL_END: "call:end",              // either → server → other: hang up
 
   // ── WebRTC signaling (relayed by server, never stored) ──────
@@ -64,22 +293,274 @@ export const EVENTS = {
   WEBRTC_OFFER: "webrtc:offer",      // Caller sends SDP offer
   WEBRTC_ANSWER: "webrtc:answer",    // Callee responds with SDP answer
   WEBRTC_ICE: "webrtc:ice",          // ICE candidate exchange (NAT traversal info)
+
+  // ── ICE servers (STUN/TURN) ─────────────────────────────────
+  ICE_CONFIG_REQUEST: "ice:request", // Client → Server: "which ICE servers should I use?"
+  ICE_CONFIG: "ice:config",          // Server → that client: the list, with TURN credentials
+
+  // Server → sender only
+  // One of the relayed events above was refused (target not in your
+  // room, too far away to start a call, or not in a call with you).
+  // Nothing was forwarded.
+  SIGNAL_REJECTED: "signal:rejected",
 } as const;
 
+// ─────────────────────────────────────────────────────────────────
+//  ROOM + PROFILE PAYLOADS
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Optional settings chosen by whoever creates a room. A room without
+ * a title shows its ID; without maxPlayers it has no capacity limit.
+ * A private room is left out of the directory, and joining it takes
+ * its password or an invite.
+ */
+export interface RoomSettings {
+  title?: string;
+  description?: string;
+  maxPlayers?: number;   // ROOM_MIN_CAPACITY..ROOM_MAX_CAPACITY
+  private?: boolean;
+}
+
+/**
+ * What JOIN_ROOM's `create` may carry: the settings, plus a password
+ * for a private room. The server keeps only a hash of the password and
+ * never sends it back. Without one, a private room is invite-only.
+ */
+export interface NewRoomSettings extends RoomSettings {
+  password?: string;     // ROOM_PASSWORD_MIN_LENGTH..ROOM_PASSWORD_MAX_LENGTH; implies private
+}
+
+/** Sent by client to enter a room. Name/status are ignored on a rejoin. */
+export interface JoinRoomPayload extends PlayerProfile {
+  roomId: string;
+  // Settings for a NEW room. Ignored if the room already exists, so a
+  // rejoin can safely send them again.
+  create?: NewRoomSettings;
+  // Credentials for a private room — either one will do. Not checked
+  // on a rejoin, so an invite isn't used up again by a reconnect.
+  password?: string;
+  invite?: string;
+}
+
+/** One room in the directory: `GET /rooms`. */
+export interface RoomInfo extends RoomSettings {
+  id: string;
+  playerCount: number;
+}
+
+/** One room in detail: `GET /rooms/:roomId`. */
+export interface RoomDetails extends RoomInfo {
+  players: PlayerProfile[];
+}
+
+/** Sent by client to change their name and/or status mid-session. */
+export type UpdateProfilePayload = PlayerProfile;
+
+/** One entry of ROOM_ROSTER: who is in the room, wherever they are. */
+export interface RosterEntry extends PlayerProfile {
+  id: string;
+}
+
+/** Broadcast to the room when someone's profile changes. */
+export interface PlayerUpdatedPayload extends PlayerProfile {
+  id: string;
+}
+
+/** Why a name/status was refused. */
+export type ProfileRejectReason = "invalid_name" | "invalid_status" | "profane_name" | "duplicate_name";
+
+/** Why a JOIN_ROOM was refused. */
+export type JoinRejectReason =
+  | ProfileRejectReason
+  | "invalid_room"
+  | "room_full"
+  | "credentials_required"  // private room, no password or invite given
+  | "invalid_password"
+  | "invalid_invite"        // unknown, expired, used up, or for another room
+  | "banned";
+
+/** Sent to the client whose profile update was refused. */
+export interface ProfileRejectedPayload {
+  reason: ProfileRejectReason;
+  message: string;   // Human-readable, safe to show as-is
+}
+
+/** Sent to the client whose JOIN_ROOM was refused. */
+export interface JoinRejectedPayload {
+  reason: JoinRejectReason;
+  message: string;   // Human-readable, safe to show as-is
+}
+
+/**
+ * Client → server: create an invite to the sender's room. Both limits
+ * are optional — leave one out and the invite never expires, or can be
+ * used any number of times.
+ */
+export interface InviteRequestPayload {
+  ttlMs?: number;     // INVITE_MIN_TTL_MS..INVITE_MAX_TTL_MS
+  maxUses?: number;   // 1..INVITE_MAX_USES
+}
+
+/**
+ * Server → that client: the invite. Share it as a link —
+ * `?room=<roomId>&invite=<token>` — and the lobby joins straight in.
+ */
+export interface InvitePayload {
+  roomId: string;
+  token: string;
+  expiresAt: number | null;   // server ms timestamp; null = never
+  maxUses: number | null;     // null = unlimited
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  MODERATION
+//
+//  Sent on behalf of the server's admins (see server/src/admin.ts),
+//  or by the server itself when a client floods it with events.
+// ─────────────────────────────────────────────────────────────────
+export const ANNOUNCEMENT_MAX_LENGTH = 280;
+
+/** A system message for everyone in a room, shown as a HUD banner. */
+export interface AnnouncementPayload {
+  id: string;
+  text: string;
+  sentAt: number;   // server ms timestamp
+}
+
+/** Why the server is about to disconnect this client. */
+export interface RemovedPayload {
+  reason: "kicked" | "banned" | "room_closed" | "rate_limited" | "signed_in_elsewhere";
+  message: string;   // Human-readable, safe to show as-is
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  TEXT CHAT
+//
+//  Three scopes:
+//    room      — everyone in the room; kept in the room's history
+//    proximity — only players within CHAT_PROXIMITY_RADIUS of the
+//                sender at the moment it was sent
+//    direct    — one player (must be in the same room)
+//  Only room messages go into history. Proximity and direct messages
+//  are delivered once and never stored.
+// ─────────────────────────────────────────────────────────────────
+export type ChatScope = "room" | "proximity" | "direct";
+
+export const CHAT_MAX_LENGTH       = 500;  // Characters per message
+export const CHAT_HISTORY_LIMIT    = 50;   // Room messages kept per room
+export const CHAT_PROXIMITY_RADIUS = 300;  // Pixels — twice the talk radius
+
+/** Sent by client to post a message. `to` is required for "direct". */
+export interface ChatSendPayload {
+  scope: ChatScope;
+  text: string;
+  to?: string;        // target player ID (direct only)
+}
+
+/** A delivered message, as every recipient sees it. */
+export interface ChatMessage {
+  id: string;         // Server-assigned, unique
+  scope: ChatScope;
+  from: string;       // sender's player ID
+  fromName: string;   // sender's name at send time
+  to?: string;        // recipient's player ID (direct only)
+  text: string;
+  sentAt: number;     // Server time, ms since epoch
+}
+
+export type ChatRejectReason = "invalid_message" | "unknown_recipient";
+
+/** Sent to the sender when a message could not be delivered. */
+export interface ChatRejectedPayload {
+  reason: ChatRejectReason;
+  message: string;    // Human-readable, safe to show as-is
+}
+
+// ─────────────────────────────────────────────────────────────────
+//  BLOCKING
+//
+//  A player can block anyone in their room. The server then refuses
+//  the blocked player's CALL_REQUESTs (they hear "busy") and drops
+//  their direct and nearby messages to the blocker (they see their own
+//  copy, as always). Neither side is told about the block.
+//
+//  Two optional extras per block:
+//    hideTheirAvatar — the blocker doesn't see them in the world
+//    hideMyAvatar    — they don't see the blocker (the server stops
+//                      sending the blocker's avatar to them)
+//
+//  A guest's blocks last as long as their session; a signed-in
+//  player's are kept with their account.
+// ─────────────────────────────────────────────────────────────────
+export const BLOCK_LIST_MAX = 100;   // Blocks per player
+
+/** Sent by client to block a player, or to change an existing block. */
+export interface BlockRequestPayload {
+  playerId: string;
+  hideTheirAvatar?: boolean;   // default false
+  hideMyAvatar?: boolean;      // default false
+}
+
+/** Sent by client to lift a block. */
+export interface UnblockPayload {
+  playerId: string;
+}
+
+/** One entry of BLOCK_LIST. */
+export interface BlockEntry {
+  playerId: string;
+  name: string;                // their name when blocked — they may have left since
+  hideTheirAvatar: boolean;
+  hideMyAvatar: boolean;
+}
+
 // ─────────────────────────────────────────────────────────────────
 //  CALL SIGNALING PAYLOADS
 // ─────────────────────────────────────────────────────────────────
 
 /** Sent by caller when requesting a voice call. */
 export interface CallRequestPayload {
-  to: string;   // target socket ID
+  to: string;   // target player ID
 }
 
 /** Sent by callee to accept or decline. */
 export interface CallResponsePayload {
-  to: string;   // original caller's socket ID
+  to: string;   // original caller's player ID
+}
+
+/** Sent by either side to hang up. */
+export interface CallEndPayload {
+  to: string;   // the other player's ID
+}
+
+/** How long a call may ring before the server ends it as missed. */
+export const CALL_RING_TIMEOUT_MS = 30_000;
+
+/** Why a call request didn't connect. */
+export type CallDeclineReason =
+  | "declined"       // the callee said no
+  | "busy";          // the callee is already in a call (sent by the server)
+
+/** Why a ringing or connected call ended. */
+export type CallEndReason =
+  | "hung_up"        // the other side ended it (or cancelled while ringing)
+  | "missed"         // nobody answered within CALL_RING_TIMEOUT_MS
+  | "disconnected";  // the other side's connection dropped
+
+/** What the caller receives when a request is declined. */
+export interface CallDeclinedPayload extends Relayed<CallResponsePayload> {
+  reason: CallDeclineReason;
 }
 
+/** What a participant receives when their call ends. */
+export interface CallEndedPayload extends Relayed<CallEndPayload> {
+  reason: CallEndReason;
+}
+
+/** Largest SDP the server will relay. Real audio-only SDPs are ~2–6 KB. */
+export const MAX_SDP_LENGTH = 16_384;
+
 /** WebRTC offer/answer payload — carries the SDP session description. */
 export interface WebRtcSdpPayload {
   to: string;
@@ -91,3 +572,116 @@ export interface WebRtcIcePayload {
   to: string;
   candidate: RTCIceCandidateInit;
 }
+
+/**
+ * The ICE servers a client should give its RTCPeerConnection. TURN
+ * entries carry short-lived credentials; ask again (ICE_CONFIG_REQUEST)
+ * before `expiresAt` — null when nothing in the list expires.
+ */
+export interface IceConfigPayload {
+  iceServers: RTCIceServer[];
+  expiresAt: number | null;   // ms since epoch
+}
+
+/** Why the server refused to forward a signaling event. */
+export type SignalRejectReason = "not_in_room" | "out_of_range" | "not_in_call";
+
+/** Sent to the sender of a signaling event that was not forwarded. */
+export interface SignalRejectedPayload {
+  event: SignalingEvent;   // which event was refused
+  to: string;              // who it was meant for
+  reason: SignalRejectReason;
+  message: string;         // Human-readable, safe to show as-is
+}
+
+/**
+ * What the target actually receives for a relayed signaling event:
+ * the sender's payload plus `from`, the sender's player ID.
+ */
+export type Relayed<T extends { to: string }> = T & { from: string };
+
+// ─────────────────────────────────────────────────────────────────
+//  TYPED EVENT MAPS
+//
+//  Plug these into Socket.IO's generics:
+//    server: new Server<ClientToServerEvents, ServerToClientEvents>()
+//    client: Socket<ServerToClientEvents, ClientToServerEvents>
+//  and a misspelled event or wrong payload shape is a compile error
+//  on both ends instead of a silent runtime no-op.
+//
+//  Types only exist at compile time — the server ALSO checks every
+//  incoming payload at runtime (server/src/schemas.ts), because the
+//  other end of a socket is not necessarily our client.
+// ─────────────────────────────────────────────────────────────────
+
+/** Events the server emits and the client listens for. */
+export interface ServerToClientEvents {
+  [EVENTS.SESSION]: (session: SessionPayload) => void;
+  [EVENTS.ROOM_STATE]: (players: Player[]) => void;
+  [EVENTS.ROOM_ROSTER]: (roster: RosterEntry[]) => void;
+  [EVENTS.SELF_PLAYER]: (player: Player) => void;
+  [EVENTS.JOIN_REJECTED]: (rejection: JoinRejectedPayload) => void;
+  [EVENTS.PLAYER_JOINED]: (player: Player) => void;
+  [EVENTS.PLAYER_LEFT]: (playerId: string) => void;
+  [EVENTS.PLAYER_MOVED]: (snapshot: SnapshotPayload) => void;
+  [EVENTS.PLAYER_ENTERED_VIEW]: (player: Player) => void;
+  [EVENTS.PLAYER_LEFT_VIEW]: (playerId: string) => void;
+  [EVENTS.PLAYER_RECONNECTING]: (playerId: string) => void;
+  [EVENTS.PLAYER_RECONNECTED]: (playerId: string) => void;
+  [EVENTS.POSITION_CORRECTION]: (pos: PositionCorrectionPayload) => void;
+  [EVENTS.MOVE_ACK]: (ack: MoveAckPayload) => void;
+
+  [EVENTS.PLAYER_UPDATED]: (update: PlayerUpdatedPayload) => void;
+  [EVENTS.PROFILE_REJECTED]: (rejection: ProfileRejectedPayload) => void;
+
+  [EVENTS.CHAT_MESSAGE]: (message: ChatMessage) => void;
+  [EVENTS.CHAT_HISTORY]: (history: ChatMessage[]) => void;
+  [EVENTS.CHAT_REJECTED]: (rejection: ChatRejectedPayload) => void;
+
+  [EVENTS.INVITE_CREATED]: (invite: InvitePayload) => void;
+
+  [EVENTS.BLOCK_LIST]: (blocks: BlockEntry[]) => void;
+
+  [EVENTS.ANNOUNCEMENT]: (announcement: AnnouncementPayload) => void;
+  [EVENTS.REMOVED]: (removal: RemovedPayload) => void;
+
+  [EVENTS.CALL_REQUEST]: (payload: Relayed<CallRequestPayload>) => void;
+  [EVENTS.CALL_ACCEPT]: (payload: Relayed<CallResponsePayload>) => void;
+  [EVENTS.CALL_DECLINE]: (payload: CallDeclinedPayload) => void;
+  [EVENTS.CALL_END]: (payload: CallEndedPayload) => void;
+  [EVENTS.WEBRTC_OFFER]: (payload: Relayed<WebRtcSdpPayload>) => void;
+  [EVENTS.WEBRTC_ANSWER]: (payload: Relayed<WebRtcSdpPayload>) => void;
+  [EVENTS.WEBRTC_ICE]: (payload: Relayed<WebRtcIcePayload>) => void;
+  [EVENTS.SIGNAL_REJECTED]: (rejection: SignalRejectedPayload) => void;
+  [EVENTS.ICE_CONFIG]: (config: IceConfigPayload) => void;
+}
+
+/** Events the client emits and the server listens for. */
+export interface ClientToServerEvents {
+  [EVENTS.JOIN_ROOM]: (payload: JoinRoomPayload) => void;
+  [EVENTS.PLAYER_MOVE]: (payload: MovePayload) => void;
+  [EVENTS.UPDATE_PROFILE]: (payload: UpdateProfilePayload) => void;
+  [EVENTS.CHAT_SEND]: (payload: ChatSendPayload) => void;
+  [EVENTS.INVITE_CREATE]: (payload: InviteRequestPayload) => void;
+  [EVENTS.BLOCK_SET]: (payload: BlockRequestPayload) => void;
+  [EVENTS.BLOCK_REMOVE]: (payload: UnblockPayload) => void;
+
+  [EVENTS.CALL_REQUEST]: (payload: CallRequestPayload) => void;
+  [EVENTS.CALL_ACCEPT]: (payload: CallResponsePayload) => void;
+  [EVENTS.CALL_DECLINE]: (payload: CallResponsePayload) => void;
+  [EVENTS.CALL_END]: (payload: CallEndPayload) => void;
+  [EVENTS.WEBRTC_OFFER]: (payload: WebRtcSdpPayload) => void;
+  [EVENTS.WEBRTC_ANSWER]: (payload: WebRtcSdpPayload) => void;
+  [EVENTS.WEBRTC_ICE]: (payload: WebRtcIcePayload) => void;
+  [EVENTS.ICE_CONFIG_REQUEST]: () => void;
+}
+
+/** The client → server events the server only forwards to `to`. */
+export type SignalingEvent =
+  | typeof EVENTS.CALL_REQUEST
+  | typeof EVENTS.CALL_ACCEPT
+  | typeof EVENTS.CALL_DECLINE
+  | typeof EVENTS.CALL_END
+  | typeof EVENTS.WEBRTC_OFFER
+  | typeof EVENTS.WEBRTC_ANSWER
+  | typeof EVENTS.WEBRTC_ICE;